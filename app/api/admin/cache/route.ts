@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CACHE_TTLS, CacheType, getCacheStore, inspectCache, purgeCache } from '@/lib/market-data-cache';
+import { getProviderHealth } from '@/lib/market-data-chain';
+
+/**
+ * Checks the admin token (ADMIN_TOKEN, sent as Authorization: Bearer <token>)
+ * Without a configured token the route is only open outside production, e.g. for local development
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) return process.env.NODE_ENV !== 'production';
+  return request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+/**
+ * Lists the market data cache entries and the health of the market data providers
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const entries = await inspectCache();
+    return NextResponse.json({
+      store: getCacheStore().name,
+      ttls: CACHE_TTLS,
+      count: entries.length,
+      size: entries.reduce((sum, entry) => sum + entry.size, 0),
+      entries,
+      providers: getProviderHealth(),
+    });
+  } catch (error) {
+    console.error('Error inspecting cache:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to inspect cache' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Purges cache entries: ?key=quote:AAPL, ?type=history, ?prefix=history:AAPL| or everything without parameters
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const type = searchParams.get('type');
+  if (type && !(type in CACHE_TTLS)) {
+    return NextResponse.json(
+      { error: `Type must be one of ${Object.keys(CACHE_TTLS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const purged = await purgeCache({
+      key: searchParams.get('key') ?? undefined,
+      type: type ? (type as CacheType) : undefined,
+      prefix: searchParams.get('prefix') ?? undefined,
+    });
+    return NextResponse.json({ purged });
+  } catch (error) {
+    console.error('Error purging cache:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to purge cache' },
+      { status: 500 }
+    );
+  }
+}
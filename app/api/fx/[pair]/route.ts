@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '@/lib/market-data';
+import { cacheKey, readCache, revalidate, writeCache } from '@/lib/market-data-cache';
+
+interface FxRate {
+  pair: string;
+  from: string;
+  to: string;
+  rate: number; // 1 unit of `from` in `to`
+  date?: string; // Date of the rate (YYYY-MM-DD) for historical lookups
+}
+
+/**
+ * Fetches a current or historical rate from the market data provider (null if there is none)
+ */
+async function loadFxRate(pair: string, from: string, to: string, date: string | null): Promise<FxRate | null> {
+  const provider = getMarketDataProvider();
+  const symbol = `${from}${to}=X`;
+  let rate: number | undefined;
+  let rateDate: string | undefined;
+
+  if (date) {
+    // Fetch the week before the date (weekends/holidays have no quotes)
+    const [year, month, day] = date.split('-').map(Number);
+    const endDate = new Date(Date.UTC(year, month - 1, day + 1));
+    const startDate = new Date(Date.UTC(year, month - 1, day - 7));
+
+    console.log(`[FX ${pair}] Fetching historical rate for ${date}`);
+
+    const historicalQuotes = await provider.getHistoricalPrices(symbol, startDate, endDate);
+
+    const lastQuote = historicalQuotes[historicalQuotes.length - 1];
+    if (lastQuote) {
+      rate = lastQuote.close;
+      rateDate = new Date(lastQuote.date).toISOString().split('T')[0];
+    }
+  } else {
+    const quote = await provider.getQuote(symbol);
+    rate = quote?.price;
+  }
+
+  return rate ? { pair, from, to, rate, date: rateDate } : null;
+}
+
+/**
+ * Returns the FX rate of a currency pair, e.g. /api/fx/USDEUR?date=2024-01-15
+ * Without date the current rate is returned, with date the last close on or before that day
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pair: string }> }
+) {
+  try {
+    const { pair } = await params;
+    const pairUpper = pair?.toUpperCase();
+
+    if (!pairUpper || !/^[A-Z]{6}$/.test(pairUpper)) {
+      return NextResponse.json(
+        { error: 'Pair parameter must look like USDEUR' },
+        { status: 400 }
+      );
+    }
+
+    const from = pairUpper.slice(0, 3);
+    const to = pairUpper.slice(3);
+    const dateParam = request.nextUrl.searchParams.get('date');
+
+    if (dateParam && !/^\d{4}-\d{2}-\d{2}$/.test(dateParam)) {
+      return NextResponse.json(
+        { error: 'Date parameter must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    // Same currency needs no lookup
+    if (from === to) {
+      return NextResponse.json({ pair: pairUpper, from, to, rate: 1, date: dateParam || undefined, cached: false, cacheAge: 0 });
+    }
+
+    const type = dateParam ? 'fx-history' : 'fx';
+    const key = dateParam ? `${pairUpper}|${dateParam}` : pairUpper;
+
+    // Check cache, stale rates are refreshed in the background
+    const lookup = await readCache<FxRate>(type, key);
+    if (lookup) {
+      if (lookup.stale) {
+        revalidate(cacheKey(type, key), async () => {
+          const fxRate = await loadFxRate(pairUpper, from, to, dateParam);
+          if (fxRate) await writeCache(type, key, fxRate);
+        });
+      }
+      return NextResponse.json(lookup.result);
+    }
+
+    const fxRate = await loadFxRate(pairUpper, from, to, dateParam);
+
+    if (!fxRate) {
+      return NextResponse.json(
+        { error: 'FX rate not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await writeCache(type, key, fxRate));
+  } catch (error) {
+    console.error('Error fetching FX rate:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch FX rate' },
+      { status: 500 }
+    );
+  }
+}
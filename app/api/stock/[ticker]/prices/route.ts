@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPriceSeries, PRICE_INTERVALS, PriceInterval } from '@/lib/price-series';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ADJUSTMENTS = ['splits', 'dividends'];
+
+function isValidDay(day: string): boolean {
+  return DAY_PATTERN.test(day) && !isNaN(Date.parse(day));
+}
+
+/**
+ * OHLC prices of a range, e.g. /api/stock/AAPL/prices?from=2020-01-01&to=2020-12-31&interval=weekly&adjust=splits,dividends
+ * from and to are inclusive (default: the last year until today), without adjust the prices are unadjusted
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticker: string }> }
+) {
+  try {
+    const { ticker } = await params;
+
+    if (!ticker) {
+      return NextResponse.json(
+        { error: 'Ticker parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const today = new Date().toISOString().split('T')[0];
+    const lastYear = new Date();
+    lastYear.setFullYear(lastYear.getFullYear() - 1);
+
+    const from = searchParams.get('from') ?? lastYear.toISOString().split('T')[0];
+    const toParam = searchParams.get('to') ?? today;
+    if (!isValidDay(from) || !isValidDay(toParam)) {
+      return NextResponse.json(
+        { error: 'From and to must be dates in the format YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const to = toParam > today ? today : toParam;
+    if (from > to) {
+      return NextResponse.json(
+        { error: 'From must not be after to' },
+        { status: 400 }
+      );
+    }
+
+    const interval = (searchParams.get('interval') ?? 'daily') as PriceInterval;
+    if (!PRICE_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `Interval must be one of ${PRICE_INTERVALS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const adjust = searchParams.get('adjust')?.split(',').filter(Boolean) ?? [];
+    if (adjust.some((adjustment) => !ADJUSTMENTS.includes(adjustment))) {
+      return NextResponse.json(
+        { error: `Adjust must be a list of ${ADJUSTMENTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      await getPriceSeries(ticker, from, to, {
+        interval,
+        adjustSplits: adjust.includes('splits'),
+        adjustDividends: adjust.includes('dividends'),
+      })
+    );
+  } catch (error) {
+    console.error('Error fetching prices:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch prices' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import YahooFinance from 'yahoo-finance2';
-
-const yahooFinance = new YahooFinance();
+import { AssetType } from '@/lib/db';
+import { getMarketDataProvider } from '@/lib/market-data';
 
 export async function GET(
   request: NextRequest,
@@ -31,43 +30,54 @@ export async function GET(
 
     console.log(`[${tickerUpper}] Fetching purchase data for date: ${purchaseDate.toISOString()}`);
 
-    // Get quote info for ISIN and asset type detection
+    const provider = getMarketDataProvider();
+
+    // Get profile for ISIN and asset type detection
     let isin: string | undefined;
-    let assetType: 'stock' | 'etf' | 'bond' = 'stock';
+    let assetType: AssetType = 'stock';
 
     try {
-      const quote = await yahooFinance.quoteSummary(tickerUpper, {
-        modules: ['summaryProfile', 'quoteType', 'price'],
-      });
+      const profile = await provider.getProfile(tickerUpper);
 
-      console.log(`[${tickerUpper}] Quote summary received:`, {
-        hasProfile: !!quote.summaryProfile,
-        hasQuoteType: !!quote.quoteType,
-        hasPrice: !!quote.price,
+      console.log(`[${tickerUpper}] Profile received:`, {
+        hasProfile: !!profile,
+        hasIsin: !!profile?.isin,
+        hasQuoteType: !!profile?.quoteType,
       });
 
       // Get ISIN if available
-      if (quote.summaryProfile?.isin) {
-        isin = quote.summaryProfile.isin;
+      if (profile?.isin) {
+        isin = profile.isin;
         console.log(`[${tickerUpper}] ISIN found: ${isin}`);
       }
 
       // Detect asset type
-      if (quote.quoteType?.quoteType) {
-        const quoteType = quote.quoteType.quoteType.toLowerCase();
+      if (profile?.quoteType) {
+        const quoteType = profile.quoteType.toLowerCase();
+        const name = (profile.name || '').toLowerCase();
         console.log(`[${tickerUpper}] Quote type: ${quoteType}`);
 
-        if (quoteType.includes('etf')) {
+        if (quoteType.includes('cryptocurrency')) {
+          assetType = 'crypto';
+        } else if (quoteType.includes('future')) {
+          // Only futures are detected as commodities: ETCs can't be told from their name whether they are
+          // physically backed (private sale) or debt securities (capital income), the type stays editable
+          assetType = 'commodity';
+        } else if (quoteType.includes('etf')) {
           assetType = 'etf';
-        } else if (quoteType.includes('bond') || quoteType.includes('mutualfund')) {
+        } else if (quoteType.includes('mutualfund')) {
+          assetType = 'fund';
+        } else if (quoteType.includes('bond')) {
           assetType = 'bond';
+        } else if (/zertifikat|certificate|turbo|knock-out|optionsschein|warrant/.test(name)) {
+          assetType = 'certificate';
         } else {
           assetType = 'stock';
         }
         console.log(`[${tickerUpper}] Detected asset type: ${assetType}`);
       }
     } catch (error) {
-      console.warn(`[${tickerUpper}] Failed to fetch quote summary:`, error);
+      console.warn(`[${tickerUpper}] Failed to fetch profile:`, error);
       // Continue without ISIN/assetType - not critical
     }
 
@@ -85,15 +95,11 @@ export async function GET(
 
       console.log(`[${tickerUpper}] Fetching historical data from ${startDate.toISOString()} to ${endDate.toISOString()}`);
 
-      const historicalQuotes = await yahooFinance.historical(tickerUpper, {
-        period1: startDate,
-        period2: endDate,
-        interval: '1d',
-      });
+      const historicalQuotes = await provider.getHistoricalPrices(tickerUpper, startDate, endDate);
 
-      console.log(`[${tickerUpper}] Historical quotes received: ${historicalQuotes?.length || 0} entries`);
+      console.log(`[${tickerUpper}] Historical quotes received: ${historicalQuotes.length} entries`);
 
-      if (historicalQuotes && historicalQuotes.length > 0) {
+      if (historicalQuotes.length > 0) {
         // Find the closest date to the purchase date
         const targetTime = purchaseDate.getTime();
         let closestQuote = historicalQuotes[0];
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CachedResult } from '@/lib/market-data-cache';
+import { getHistoricalData, getStockQuotes, HistoricalData, StockData } from '@/lib/stock-data';
+
+type BatchDataSet = 'quote' | 'history';
+
+interface BatchRequest {
+  tickers: string[];
+  include?: BatchDataSet[]; // Default: quote and history
+  year?: number; // Year of the history (default: current year)
+}
+
+// Result of one data set of a ticker, status as the single ticker routes would answer
+interface BatchEntry<T> {
+  status: number;
+  data?: CachedResult<T>;
+  error?: string;
+}
+
+interface BatchResult {
+  quote?: BatchEntry<StockData>;
+  history?: BatchEntry<HistoricalData>;
+}
+
+const MAX_TICKERS = 100;
+const HISTORY_CONCURRENCY = 4; // Parallel history requests to the provider
+
+/**
+ * Runs fn for all items with at most limit calls at a time
+ */
+async function mapWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Quotes and year history of several tickers in one request, e.g.
+ * POST /api/stock/batch { "tickers": ["AAPL", "SAP.DE"], "include": ["quote", "history"] }
+ * Returns { results: { AAPL: { quote: { status: 200, data }, history: { status: 200, data } }, ... } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: BatchRequest | null;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be JSON' },
+        { status: 400 }
+      );
+    }
+
+    // JSON null, arrays and primitives are valid JSON but no request object
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.tickers) || body.tickers.some((ticker) => typeof ticker !== 'string' || !ticker)) {
+      return NextResponse.json(
+        { error: 'Tickers must be a list of ticker symbols' },
+        { status: 400 }
+      );
+    }
+
+    const tickers = Array.from(new Set(body.tickers.map((ticker) => ticker.toUpperCase())));
+    if (tickers.length > MAX_TICKERS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_TICKERS} tickers per request` },
+        { status: 400 }
+      );
+    }
+
+    const include = body.include ?? ['quote', 'history'];
+    if (!Array.isArray(include) || include.some((dataSet) => dataSet !== 'quote' && dataSet !== 'history')) {
+      return NextResponse.json(
+        { error: 'Include must be a list of "quote" and "history"' },
+        { status: 400 }
+      );
+    }
+
+    const currentYear = new Date().getFullYear();
+    const year = body.year ?? currentYear;
+    if (!Number.isInteger(year) || year > currentYear) {
+      return NextResponse.json(
+        { error: 'Invalid year parameter' },
+        { status: 400 }
+      );
+    }
+
+    const results: Record<string, BatchResult> = Object.fromEntries(tickers.map((ticker) => [ticker, {}]));
+
+    // One provider call for all quotes
+    let quotes: Awaited<ReturnType<typeof getStockQuotes>> = {};
+    if (include.includes('quote')) {
+      try {
+        quotes = await getStockQuotes(tickers);
+        tickers.forEach((ticker) => {
+          const quote = quotes[ticker];
+          results[ticker].quote = quote ? { status: 200, data: quote } : { status: 404, error: 'Stock data not found' };
+        });
+      } catch (error) {
+        console.error('Error fetching batch quotes:', error);
+        const message = error instanceof Error ? error.message : 'Failed to fetch stock data';
+        tickers.forEach((ticker) => {
+          results[ticker].quote = { status: 500, error: message };
+        });
+      }
+    }
+
+    if (include.includes('history')) {
+      await mapWithConcurrency(tickers, HISTORY_CONCURRENCY, async (ticker) => {
+        try {
+          const data = await getHistoricalData(ticker, year, quotes[ticker]);
+          results[ticker].history = { status: 200, data };
+        } catch (error) {
+          console.error(`[${ticker}] Error fetching historical data:`, error);
+          results[ticker].history = {
+            status: 500,
+            error: error instanceof Error ? error.message : 'Failed to fetch historical data',
+          };
+        }
+      });
+    }
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error in batch route:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch batch data' },
+      { status: 500 }
+    );
+  }
+}
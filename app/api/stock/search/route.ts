@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import YahooFinance from 'yahoo-finance2';
-
-const yahooFinance = new YahooFinance();
+import { getMarketDataProvider, MarketSearchResult } from '@/lib/market-data';
 
 // Extract WKN from German ISIN (e.g., DE0001135085 -> 113508)
 function extractWKN(isin: string): string | null {
@@ -55,39 +53,30 @@ export async function GET(request: NextRequest) {
     const searchVariants = generateSearchVariants(query);
     console.log(`[SEARCH] Generated search variants:`, searchVariants);
 
-    const allResults = new Map<string, any>();
+    const provider = getMarketDataProvider();
+    const allResults = new Map<string, MarketSearchResult>();
 
     // Try each search variant
     for (const variant of searchVariants) {
       try {
         console.log(`[SEARCH] Trying variant: ${variant}`);
-        const searchResults = await yahooFinance.search(variant);
-
-        console.log(`[SEARCH] Variant "${variant}" found ${searchResults.quotes?.length || 0} results`);
-
-        if (searchResults.quotes && searchResults.quotes.length > 0) {
-          // Add unique results (deduplicate by symbol)
-          searchResults.quotes.forEach((quote: any) => {
-            if (quote.symbol && !allResults.has(quote.symbol)) {
-              allResults.set(quote.symbol, quote);
-            }
-          });
-        }
+        const searchResults = await provider.search(variant);
+
+        console.log(`[SEARCH] Variant "${variant}" found ${searchResults.length} results`);
+
+        // Add unique results (deduplicate by symbol)
+        searchResults.forEach((result) => {
+          if (!allResults.has(result.symbol)) {
+            allResults.set(result.symbol, result);
+          }
+        });
       } catch (error) {
         console.warn(`[SEARCH] Variant "${variant}" failed:`, error);
         // Continue with next variant
       }
     }
 
-    // Format results
-    const results = Array.from(allResults.values()).map((quote: any) => ({
-      symbol: quote.symbol,
-      shortname: quote.shortname || quote.longname || '',
-      longname: quote.longname || '',
-      exchDisp: quote.exchDisp || '',
-      typeDisp: quote.typeDisp || '',
-      quoteType: quote.quoteType || '',
-    }));
+    const results = Array.from(allResults.values());
 
     console.log(`[SEARCH] Total unique results: ${results.length}`);
 
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { lock, unlock } from '@/lib/encryption';
+import { useEncryptionLock } from '@/lib/hooks/useEncryptionLock';
+
+// Inactivity after which an unlocked database is locked again
+const AUTO_LOCK_MINUTES = 15;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+export interface EncryptionGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Shows an unlock screen instead of the page while the encrypted database is locked
+ */
+export const EncryptionGate: React.FC<EncryptionGateProps> = ({ children }) => {
+  const lockState = useEncryptionLock();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  // Auto-lock after inactivity
+  useEffect(() => {
+    if (lockState !== 'unlocked') return;
+
+    let timer = setTimeout(lock, AUTO_LOCK_MINUTES * 60 * 1000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, AUTO_LOCK_MINUTES * 60 * 1000);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [lockState]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsUnlocking(true);
+    setError('');
+    try {
+      if (await unlock(passphrase)) {
+        setPassphrase('');
+      } else {
+        setError('Falsche Passphrase');
+      }
+    } catch (err) {
+      console.error('Unlock failed:', err);
+      setError('Fehler beim Entsperren');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (lockState === 'disabled' || lockState === 'unlocked') {
+    return <>{children}</>;
+  }
+
+  if (lockState === 'pending') {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-zinc-50 to-zinc-100 dark:from-zinc-900 dark:to-black flex items-center justify-center">
+        <p className="text-zinc-600 dark:text-zinc-400">Lade...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-zinc-50 to-zinc-100 dark:from-zinc-900 dark:to-black flex items-center justify-center px-4">
+      <form
+        onSubmit={handleUnlock}
+        className="w-full max-w-sm bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6"
+      >
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">🔒 Depots gesperrt</h1>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+          Deine Daten sind verschlüsselt. Gib deine Passphrase ein, um sie anzuzeigen.
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          required
+          className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+        />
+        {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="mt-4 w-full px-4 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isUnlocking ? 'Entsperre...' : 'Entsperren'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import { undoImport } from '@/lib/imports';
+
+export interface ImportUndoBannerProps {
+  bankId?: number; // Only show imports into this bank
+}
+
+/**
+ * Offers to undo the latest import
+ */
+export const ImportUndoBanner: React.FC<ImportUndoBannerProps> = ({ bankId }) => {
+  const latest = useLiveQuery(() => db.importBatches.orderBy('createdAt').last());
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  if (!latest?.id || (bankId !== undefined && latest.bankId !== bankId)) {
+    return null;
+  }
+
+  const handleUndo = async () => {
+    const message =
+      latest.mode === 'overwrite'
+        ? 'Der Import wird rückgängig gemacht und die überschriebenen Daten werden wiederhergestellt. Fortfahren?'
+        : 'Der Import wird rückgängig gemacht und die importierten Daten werden gelöscht. Fortfahren?';
+    if (!confirm(message)) return;
+
+    setIsUndoing(true);
+    try {
+      await undoImport(latest.id!);
+    } catch (error) {
+      console.error('Undo import failed:', error);
+      alert(
+        `Fehler beim Rückgängigmachen: ${
+          error instanceof Error ? error.message : 'Unbekannter Fehler'
+        }`
+      );
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-zinc-100 dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-700 rounded-lg flex flex-wrap items-center justify-between gap-3">
+      <p className="text-sm text-zinc-700 dark:text-zinc-300">
+        Letzter Import ({latest.mode === 'overwrite' ? 'überschrieben' : 'hinzugefügt'}) am{' '}
+        {latest.createdAt.toLocaleString('de-DE')}: {latest.label}
+      </p>
+      <button
+        onClick={handleUndo}
+        disabled={isUndoing}
+        className="px-4 py-2 text-sm bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-50 border border-zinc-300 dark:border-zinc-700 rounded-lg font-medium hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isUndoing ? 'Wird rückgängig gemacht...' : '↩️ Import rückgängig machen'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,742 @@
+'use client';
+
+import React, { Fragment, useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { db, ImportTemplate, Transaction } from '@/lib/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { TRANSACTION_TYPE_LABELS } from '@/lib/transactions';
+import { getImportRowBank, ImportBank, importPositions } from '@/lib/imports';
+import { parsePositionCSV, PositionImportRow, PositionParseResult } from '@/lib/csv-positions';
+import { csvToArray, CSVRowEdits, getCSVHeaders } from '@/lib/csv-utils';
+import {
+  ColumnMapping,
+  CUSTOM_PROFILE_ID,
+  DEFAULT_PROFILE_ID,
+  detectImportProfile,
+  getImportProfile,
+  guessColumnMapping,
+  IMPORT_FIELD_LABELS,
+  IMPORT_PROFILES,
+  ImportField,
+  mappingMatchesHeaders,
+  mappingToProfile,
+  REQUIRED_IMPORT_FIELDS,
+} from '@/lib/csv-import-profiles';
+import { DATE_FORMAT_LABELS, DateFormat, ImportFormats, NUMBER_FORMAT_LABELS, NumberFormat } from '@/lib/import-formats';
+import { DropdownDepotViewer } from '@/app/components/DropdownDepotViewer';
+import {
+  applyDuplicateActions,
+  DUPLICATE_ACTION_LABELS,
+  DuplicateAction,
+  findDuplicates,
+} from '@/lib/import-duplicates';
+
+/**
+ * Replaces ISIN placeholder tickers with resolved tickers
+ */
+function applyTickerOverrides(data: PositionParseResult, overrides: Record<string, string>): PositionParseResult {
+  const resolve = <T extends { isin: string; ticker: string }>(item: T): T =>
+    item.ticker === item.isin && overrides[item.isin] ? { ...item, ticker: overrides[item.isin] } : item;
+
+  return {
+    ...data,
+    success: data.success.map(resolve),
+    transactions: data.transactions.map(resolve),
+    allRows: data.allRows.map(resolve),
+  };
+}
+
+/**
+ * Extracts the column mapping of a saved template
+ */
+function templateToMapping(template: ImportTemplate): ColumnMapping {
+  return {
+    columns: template.columns,
+    decimalSeparator: template.decimalSeparator,
+    dateFormat: template.dateFormat,
+  };
+}
+
+export interface PositionImportPreviewProps {
+  bankId?: number; // Bank of rows without bank column, all rows need one if not set
+}
+
+/**
+ * Preview of a position CSV import (from sessionStorage) with column mapping, corrections and duplicate handling
+ */
+export const PositionImportPreview: React.FC<PositionImportPreviewProps> = ({ bankId }) => {
+  const router = useRouter();
+  const returnPath = bankId !== undefined ? `/depots/${bankId}` : '/depots';
+  const [csvContent, setCsvContent] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [profileId, setProfileId] = useState(IMPORT_PROFILES[0].id);
+  const [detectedProfileId, setDetectedProfileId] = useState(IMPORT_PROFILES[0].id);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping([]));
+  const [templateName, setTemplateName] = useState('');
+  const [formatOverrides, setFormatOverrides] = useState<Partial<ImportFormats>>({});
+  const [tickerOverrides, setTickerOverrides] = useState<Record<string, string>>({});
+  const [isResolvingTickers, setIsResolvingTickers] = useState(false);
+  const [duplicateActions, setDuplicateActions] = useState<Record<number, DuplicateAction>>({});
+  const [rowEdits, setRowEdits] = useState<CSVRowEdits>({});
+  const [excludedRows, setExcludedRows] = useState<number[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const banks = useLiveQuery(() => db.banks.toArray());
+  const bank = banks?.find((b) => b.id === bankId);
+  const existingTransactions = useLiveQuery(() => db.transactions.toArray());
+  const templates = useLiveQuery(() => db.importTemplates.orderBy('name').toArray());
+
+  useEffect(() => {
+    // Load raw CSV from sessionStorage and detect the broker
+    const content = sessionStorage.getItem('positions_import_csv');
+    if (!content) {
+      // No data, redirect back
+      router.push(returnPath);
+      return;
+    }
+
+    const loadProfile = async () => {
+      const csvHeaders = getCSVHeaders(content);
+      let detectedId = detectImportProfile(csvHeaders)?.id ?? CUSTOM_PROFILE_ID;
+      let initialMapping = guessColumnMapping(csvHeaders);
+
+      // Unknown layout: use a saved template that fits, otherwise let the user map the columns
+      if (detectedId === CUSTOM_PROFILE_ID) {
+        const savedTemplates = await db.importTemplates.toArray();
+        const template = savedTemplates.find((t) => mappingMatchesHeaders(t, csvHeaders));
+        if (template) {
+          detectedId = `template-${template.id}`;
+          initialMapping = templateToMapping(template);
+        }
+      }
+
+      setHeaders(csvHeaders);
+      setMapping(initialMapping);
+      setProfileId(detectedId);
+      setDetectedProfileId(detectedId);
+      setCsvContent(content);
+    };
+
+    loadProfile();
+  }, [returnPath, router]);
+
+  // Custom mappings and saved templates are both edited in the mapping step
+  const isCustomMapping = profileId === CUSTOM_PROFILE_ID || profileId.startsWith('template-');
+  const selectedTemplate = templates?.find((t) => `template-${t.id}` === profileId);
+
+  const previewData = csvContent !== null
+    ? applyTickerOverrides(
+        parsePositionCSV(
+          csvContent,
+          bankId ?? null,
+          isCustomMapping ? mappingToProfile(mapping, selectedTemplate?.name) : getImportProfile(profileId),
+          formatOverrides,
+          rowEdits,
+          excludedRows
+        ),
+        tickerOverrides
+      )
+    : null;
+
+  // Bank each row is imported into (new banks are created by name)
+  const getRowBank = (row: PositionImportRow): ImportBank => getImportRowBank(row, banks ?? [], bank);
+
+  // Rows that are probably already in the depot (only relevant when appending)
+  const duplicates = previewData && existingTransactions && banks
+    ? findDuplicates(previewData.allRows, existingTransactions, getRowBank)
+    : new Map<number, Transaction>();
+
+  const setAllDuplicateActions = (action: DuplicateAction) => {
+    setDuplicateActions(Object.fromEntries([...duplicates.keys()].map((rowNumber) => [rowNumber, action])));
+  };
+
+  // First rows of the file, shown as sample values in the mapping step
+  const sampleRows = csvContent !== null && isCustomMapping ? csvToArray(csvContent).slice(0, 3) : [];
+  const getSampleValues = (header: string) =>
+    sampleRows.map((row) => row[header]?.trim()).filter((value) => !!value);
+
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter((field) => !mapping.columns[field]);
+  if (!mapping.columns.price && !mapping.columns.amount) {
+    missingFields.push('price');
+  }
+
+  const handleProfileChange = (value: string) => {
+    const template = templates?.find((t) => `template-${t.id}` === value);
+    if (template) {
+      setMapping(templateToMapping(template));
+    }
+    setProfileId(value);
+    // Edits refer to the rows of the previous profile
+    setRowEdits({});
+    setExcludedRows([]);
+  };
+
+  const handleRowEdit = (rowNumber: number, field: string, value: string) => {
+    setRowEdits((prev) => ({ ...prev, [rowNumber]: { ...prev[rowNumber], [field]: value } }));
+  };
+
+  const toggleRowExcluded = (rowNumber: number) => {
+    setExcludedRows((prev) =>
+      prev.includes(rowNumber) ? prev.filter((n) => n !== rowNumber) : [...prev, rowNumber]
+    );
+  };
+
+  const handleMappingChange = (field: ImportField, header: string) => {
+    setMapping((prev) => ({ ...prev, columns: { ...prev.columns, [field]: header || undefined } }));
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) {
+      alert('Bitte gib einen Namen für die Vorlage ein');
+      return;
+    }
+
+    try {
+      const id = await db.importTemplates.add({ ...mapping, name, createdAt: new Date() });
+      setProfileId(`template-${id}`);
+      setTemplateName('');
+      alert(`Vorlage "${name}" gespeichert`);
+    } catch (error) {
+      console.error('Failed to save import template:', error);
+      alert('Fehler beim Speichern der Vorlage');
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return;
+    if (!confirm(`Vorlage "${selectedTemplate.name}" wirklich löschen?`)) return;
+
+    try {
+      await db.importTemplates.delete(selectedTemplate.id!);
+      setProfileId(CUSTOM_PROFILE_ID);
+    } catch (error) {
+      console.error('Failed to delete import template:', error);
+      alert('Fehler beim Löschen der Vorlage');
+    }
+  };
+
+  // ISINs without a known ticker (broker exports rarely contain tickers)
+  const unresolvedIsins = previewData
+    ? [...new Set(previewData.allRows.filter((row) => row.isin && row.ticker === row.isin).map((row) => row.isin))]
+    : [];
+
+  const handleResolveTickers = async () => {
+    setIsResolvingTickers(true);
+    const resolved: Record<string, string> = {};
+
+    // One after another to avoid throttling by Yahoo
+    for (const isin of unresolvedIsins) {
+      try {
+        const response = await fetch(`/api/stock/search?query=${isin}`);
+        if (!response.ok) throw new Error('Fehler bei der Suche');
+        const data = await response.json();
+        if (data.results?.[0]?.symbol) {
+          resolved[isin] = data.results[0].symbol;
+        }
+      } catch (error) {
+        console.error(`Failed to resolve ticker for ${isin}:`, error);
+      }
+    }
+
+    setTickerOverrides((prev) => ({ ...prev, ...resolved }));
+    setIsResolvingTickers(false);
+
+    const missing = unresolvedIsins.length - Object.keys(resolved).length;
+    if (missing > 0) {
+      alert(`Für ${missing} ISIN(s) wurde kein Ticker gefunden. Die ISIN wird als Ticker verwendet.`);
+    }
+  };
+
+  const handleCancel = () => {
+    sessionStorage.removeItem('positions_import_csv');
+    router.push(returnPath);
+  };
+
+  // Rows with errors are left out, the user has to confirm that
+  const confirmRejectedRows = () =>
+    !previewData?.errors.length ||
+    confirm(`${previewData.errors.length} fehlerhafte Zeile(n) werden nicht importiert. Fortfahren?`);
+
+  const handleOverwrite = async () => {
+    if (!previewData || !confirmRejectedRows()) return;
+
+    setIsProcessing(true);
+    try {
+      // Replace all positions and transactions of the affected banks in one transaction
+      const { groups } = applyDuplicateActions(previewData, new Map(), {}, getRowBank);
+      await importPositions(groups, 'overwrite');
+
+      sessionStorage.removeItem('positions_import_csv');
+      alert(`${previewData.success.length} Positionen und ${previewData.transactions.length} Transaktionen erfolgreich importiert (Depot überschrieben)`);
+      router.push(returnPath);
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert('Fehler beim Importieren');
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAppend = async () => {
+    if (!previewData || !confirmRejectedRows()) return;
+
+    setIsProcessing(true);
+    try {
+      // Add the new positions (with opening buys) and further transactions, duplicates as chosen
+      const { groups, replacedTransactionIds, summary } = applyDuplicateActions(
+        previewData,
+        duplicates,
+        duplicateActions,
+        getRowBank
+      );
+      await importPositions(groups, 'append', replacedTransactionIds);
+
+      sessionStorage.removeItem('positions_import_csv');
+      alert(
+        `Import abgeschlossen: ${summary.inserted} Zeilen hinzugefügt, ${summary.skipped} übersprungen, ${summary.updated} aktualisiert`
+      );
+      router.push(returnPath);
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert('Fehler beim Importieren');
+      setIsProcessing(false);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('de-DE');
+  };
+
+  if (!banks || (bankId !== undefined && !bank) || !previewData) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-zinc-50 to-zinc-100 dark:from-zinc-900 dark:to-black flex items-center justify-center">
+        <p className="text-zinc-600 dark:text-zinc-400">Lade Vorschau...</p>
+      </div>
+    );
+  }
+
+  const hasErrors = previewData.errors.length > 0;
+  const canImport = previewData.success.length + previewData.transactions.length > 0;
+  const excludedCount = previewData.allRows.filter((row) => row._excluded).length;
+
+  // Rows grouped by the bank they are imported into
+  const rowGroups: { bank: ImportBank; rows: PositionImportRow[] }[] = [];
+  previewData.allRows.forEach((row) => {
+    const rowBank = getRowBank(row);
+    const group = rowGroups.find((g) => g.bank.name.toLowerCase() === rowBank.name.toLowerCase());
+    if (group) {
+      group.rows.push(row);
+    } else {
+      rowGroups.push({ bank: rowBank, rows: [row] });
+    }
+  });
+  const showBankGroups = bankId === undefined || rowGroups.length > 1;
+  const newBankNames = rowGroups.filter((g) => g.bank.id === undefined && g.bank.name).map((g) => g.bank.name);
+
+  const renderEditableCell = (row: PositionImportRow, field: string) => (
+    <td className="px-2 py-2">
+      <input
+        type="text"
+        value={row._raw[field] ?? ''}
+        onChange={(e) => handleRowEdit(row._rowNumber, field, e.target.value)}
+        placeholder={field === 'ticker' ? row.ticker : undefined}
+        className="w-full min-w-[6rem] px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+      />
+    </td>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-zinc-50 to-zinc-100 dark:from-zinc-900 dark:to-black">
+      <main className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+              Import-Vorschau: {bank?.name ?? 'Alle Banken'}
+            </h1>
+            <p className="text-zinc-600 dark:text-zinc-400">
+              Überprüfe die zu importierenden Positionen
+            </p>
+          </div>
+
+          {/* Import Profile */}
+          <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+            <DropdownDepotViewer
+              label="Import-Profil (Broker)"
+              value={profileId}
+              onChange={handleProfileChange}
+              options={[
+                ...IMPORT_PROFILES.map((profile) => ({ value: profile.id, label: profile.name })),
+                ...(templates ?? []).map((template) => ({
+                  value: `template-${template.id}`,
+                  label: `Vorlage: ${template.name}`,
+                })),
+                { value: CUSTOM_PROFILE_ID, label: 'Eigene Spaltenzuordnung' },
+              ].map((option) => ({
+                ...option,
+                label: option.value === detectedProfileId ? `${option.label} (erkannt)` : option.label,
+              }))}
+            />
+            {isCustomMapping && (
+              <div className="mt-6 pt-6 border-t border-zinc-200 dark:border-zinc-700">
+                <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-1">
+                  Spaltenzuordnung
+                </h2>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+                  Ordne die Spalten der Datei den Feldern zu. Pflichtfelder sind mit * markiert.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => {
+                    const header = mapping.columns[field] ?? '';
+                    const samples = header ? getSampleValues(header) : [];
+                    return (
+                      <div key={field}>
+                        <DropdownDepotViewer
+                          label={`${IMPORT_FIELD_LABELS[field]}${REQUIRED_IMPORT_FIELDS.includes(field) ? ' *' : ''}`}
+                          value={header}
+                          onChange={(value) => handleMappingChange(field, value)}
+                          options={[
+                            { value: '', label: '– nicht zugeordnet –' },
+                            ...headers.map((h) => ({ value: h, label: h })),
+                          ]}
+                        />
+                        {samples.length > 0 && (
+                          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                            z.B. {samples.join(' | ')}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <DropdownDepotViewer
+                    label="Zahlenformat"
+                    value={mapping.decimalSeparator}
+                    onChange={(value) => setMapping((prev) => ({ ...prev, decimalSeparator: value as ',' | '.' }))}
+                    options={[
+                      { value: ',', label: '1.234,56 (Komma)' },
+                      { value: '.', label: '1,234.56 (Punkt)' },
+                    ]}
+                  />
+                  <DropdownDepotViewer
+                    label="Datumsformat"
+                    value={mapping.dateFormat}
+                    onChange={(value) => setMapping((prev) => ({ ...prev, dateFormat: value as DateFormat }))}
+                    options={(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((format) => ({
+                      value: format,
+                      label: DATE_FORMAT_LABELS[format],
+                    }))}
+                  />
+                </div>
+                {missingFields.length > 0 && (
+                  <p className="mt-4 text-sm text-yellow-800 dark:text-yellow-200">
+                    Nicht zugeordnet: {missingFields.map((field) => IMPORT_FIELD_LABELS[field]).join(', ')}
+                    {!mapping.columns.price && !mapping.columns.amount && ' (oder Betrag)'}
+                  </p>
+                )}
+                <div className="mt-4 flex flex-wrap items-center gap-3">
+                  <input
+                    type="text"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    placeholder="Name der Vorlage, z.B. Meine Bank"
+                    className="flex-1 min-w-48 px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+                  />
+                  <button
+                    onClick={handleSaveTemplate}
+                    className="px-4 py-2 text-sm bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors"
+                  >
+                    💾 Als Vorlage speichern
+                  </button>
+                  {selectedTemplate && (
+                    <button
+                      onClick={handleDeleteTemplate}
+                      className="px-4 py-2 text-sm text-red-600 dark:text-red-400 border border-red-300 dark:border-red-800 rounded-lg font-medium hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                    >
+                      🗑️ Vorlage löschen
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+            {profileId === DEFAULT_PROFILE_ID && (
+              <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <DropdownDepotViewer
+                  label="Zahlenformat"
+                  value={formatOverrides.numberFormat ?? ''}
+                  onChange={(value) =>
+                    setFormatOverrides((prev) => ({ ...prev, numberFormat: (value || undefined) as NumberFormat | undefined }))
+                  }
+                  options={[
+                    { value: '', label: `Automatisch (${NUMBER_FORMAT_LABELS[previewData.formats.numberFormat]})` },
+                    ...(Object.keys(NUMBER_FORMAT_LABELS) as NumberFormat[]).map((format) => ({
+                      value: format,
+                      label: NUMBER_FORMAT_LABELS[format],
+                    })),
+                  ]}
+                />
+                <DropdownDepotViewer
+                  label="Datumsformat"
+                  value={formatOverrides.dateFormat ?? ''}
+                  onChange={(value) =>
+                    setFormatOverrides((prev) => ({ ...prev, dateFormat: (value || undefined) as DateFormat | undefined }))
+                  }
+                  options={[
+                    { value: '', label: `Automatisch (${DATE_FORMAT_LABELS[previewData.formats.dateFormat]})` },
+                    ...(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((format) => ({
+                      value: format,
+                      label: DATE_FORMAT_LABELS[format],
+                    })),
+                  ]}
+                />
+              </div>
+            )}
+            {previewData.warnings.length > 0 && (
+              <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+                <ul className="text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
+                  {previewData.warnings.map((warning) => (
+                    <li key={warning}>⚠️ {warning}. Bitte prüfe die Vorschau und wähle das Format bei Bedarf aus.</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {unresolvedIsins.length > 0 && (
+              <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg flex flex-wrap justify-between items-center gap-3">
+                <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                  Für {unresolvedIsins.length} Wertpapier(e) enthält die Datei keinen Ticker, es wird vorerst die ISIN verwendet.
+                </p>
+                <button
+                  onClick={handleResolveTickers}
+                  disabled={isResolvingTickers}
+                  className="px-4 py-2 text-sm bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isResolvingTickers ? 'Suche...' : '🔍 Ticker per ISIN suchen'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">Positionen (Käufe)</p>
+                <p className="text-2xl font-bold text-green-600 dark:text-green-400">
+                  {previewData.success.length}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">Weitere Transaktionen</p>
+                <p className="text-2xl font-bold text-green-600 dark:text-green-400">
+                  {previewData.transactions.length}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">Übersprungen</p>
+                <p className="text-2xl font-bold text-zinc-600 dark:text-zinc-400">
+                  {previewData.skipped}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">Fehlerhafte Zeilen</p>
+                <p className="text-2xl font-bold text-red-600 dark:text-red-400">
+                  {previewData.errors.length}
+                </p>
+              </div>
+            </div>
+            {hasErrors && (
+              <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                <p className="text-sm text-red-800 dark:text-red-200 font-medium mb-2">
+                  Fehler gefunden:
+                </p>
+                <ul className="text-sm text-red-700 dark:text-red-300 space-y-1">
+                  {previewData.errors.map((err, idx) => (
+                    <li key={idx}>
+                      Zeile {err.row}: {err.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {newBankNames.length > 0 && (
+              <div className="mt-4 p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg">
+                <p className="text-sm text-zinc-700 dark:text-zinc-300">
+                  🏦 Neue Banken werden angelegt: {newBankNames.join(', ')}
+                </p>
+              </div>
+            )}
+            {duplicates.size > 0 && (
+              <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+                <p className="text-sm text-yellow-800 dark:text-yellow-200 mb-3">
+                  ⚠️ {duplicates.size} Zeile(n) sind vermutlich bereits im Depot vorhanden (gleiche ISIN, gleiches
+                  Datum, gleiche Anzahl und ähnlicher Preis). Beim Ergänzen wird für jede Zeile die gewählte Aktion
+                  ausgeführt.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(DUPLICATE_ACTION_LABELS) as DuplicateAction[]).map((action) => (
+                    <button
+                      key={action}
+                      onClick={() => setAllDuplicateActions(action)}
+                      className="px-3 py-1.5 text-xs bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-50 border border-zinc-300 dark:border-zinc-700 rounded-lg font-medium hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors"
+                    >
+                      Alle: {DUPLICATE_ACTION_LABELS[action]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Preview Table */}
+          <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-zinc-100 dark:bg-zinc-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Import</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Zeile</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Art</th>
+                    {showBankGroups && (
+                      <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Bank</th>
+                    )}
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">ISIN</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Ticker</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Typ</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Anzahl</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Preis</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Währung</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Datum</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rowGroups.map(({ bank: rowBank, rows }) => (
+                    <Fragment key={rowBank.name}>
+                      {showBankGroups && (
+                        <tr className="border-t border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-900">
+                          <td colSpan={12} className="px-4 py-2 font-medium text-zinc-900 dark:text-zinc-50">
+                            🏦 {rowBank.name || 'Ohne Bank'}
+                            {rowBank.id === undefined && rowBank.name ? ' (neu)' : ''} • {rows.length} Zeile(n)
+                          </td>
+                        </tr>
+                      )}
+                      {rows.map((row) => {
+                        const hasError = !!row._error;
+                        const duplicate = duplicates.get(row._rowNumber);
+                        const duplicateAction = duplicateActions[row._rowNumber] ?? 'skip';
+                        return (
+                          <tr
+                            key={row._rowNumber}
+                            className={`border-t border-zinc-200 dark:border-zinc-700 ${
+                              hasError ? 'bg-red-50 dark:bg-red-900/10' : duplicate ? 'bg-yellow-50 dark:bg-yellow-900/10' : ''
+                            } ${row._excluded ? 'opacity-50' : ''}`}
+                          >
+                            <td className="px-4 py-3">
+                              <input
+                                type="checkbox"
+                                checked={!hasError && !row._excluded}
+                                disabled={hasError}
+                                onChange={() => toggleRowExcluded(row._rowNumber)}
+                                title={hasError ? 'Fehlerhafte Zeilen werden nicht importiert' : 'Zeile importieren'}
+                              />
+                            </td>
+                            <td className="px-4 py-3 text-zinc-900 dark:text-zinc-50">
+                              {row._rowNumber}
+                            </td>
+                            <td className="px-4 py-3 text-zinc-900 dark:text-zinc-50">
+                              {TRANSACTION_TYPE_LABELS[row._type] ?? row._type}
+                            </td>
+                            {showBankGroups && renderEditableCell(row, 'bank')}
+                            {renderEditableCell(row, 'isin')}
+                            {renderEditableCell(row, 'ticker')}
+                            {renderEditableCell(row, 'assetType')}
+                            {renderEditableCell(row, 'quantity')}
+                            {renderEditableCell(row, 'purchasePrice')}
+                            {renderEditableCell(row, 'currency')}
+                            {renderEditableCell(row, 'purchaseDate')}
+                            <td className="px-4 py-3">
+                              {hasError ? (
+                                <span className="text-red-600 dark:text-red-400 text-xs">
+                                  {row._error}
+                                </span>
+                              ) : duplicate ? (
+                                <div>
+                                  <span className="text-yellow-700 dark:text-yellow-300 text-xs">
+                                    ⚠️ Duplikat vom {formatDate(duplicate.date)}
+                                  </span>
+                                  <div className="mt-1 flex gap-1">
+                                    {(Object.keys(DUPLICATE_ACTION_LABELS) as DuplicateAction[]).map((action) => (
+                                      <button
+                                        key={action}
+                                        onClick={() =>
+                                          setDuplicateActions((prev) => ({ ...prev, [row._rowNumber]: action }))
+                                        }
+                                        className={`px-2 py-1 text-xs rounded whitespace-nowrap transition-colors ${
+                                          duplicateAction === action
+                                            ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900'
+                                            : 'bg-zinc-100 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-600'
+                                        }`}
+                                      >
+                                        {DUPLICATE_ACTION_LABELS[action]}
+                                      </button>
+                                    ))}
+                                  </div>
+                                </div>
+                              ) : (
+                                <span className="text-green-600 dark:text-green-400 text-xs">
+                                  ✓ OK
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex flex-wrap gap-4">
+            <button
+              onClick={handleCancel}
+              disabled={isProcessing}
+              className="px-6 py-3 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-50 border border-zinc-300 dark:border-zinc-700 rounded-lg font-medium hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+            >
+              <span>✕</span>
+              <span>Abbrechen</span>
+            </button>
+            <button
+              onClick={handleOverwrite}
+              disabled={!canImport || isProcessing}
+              className="px-6 py-3 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+            >
+              <span>🔄</span>
+              <span>{isProcessing ? 'Wird importiert...' : showBankGroups ? 'Betroffene Depots überschreiben' : 'Depot überschreiben'}</span>
+            </button>
+            <button
+              onClick={handleAppend}
+              disabled={!canImport || isProcessing}
+              className="px-6 py-3 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+            >
+              <span>➕</span>
+              <span>{isProcessing ? 'Wird importiert...' : showBankGroups ? 'Depots ergänzen' : 'Depot ergänzen'}</span>
+            </button>
+          </div>
+
+          {!canImport ? (
+            <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+              Keine gültigen Zeilen zum Importieren. Korrigiere die Werte direkt in der Tabelle oder passe die Spaltenzuordnung an.
+            </p>
+          ) : (hasErrors || excludedCount > 0) && (
+            <p className="mt-4 text-sm text-zinc-600 dark:text-zinc-400">
+              {previewData.errors.length} fehlerhafte und {excludedCount} ausgeschlossene Zeile(n) werden nicht
+              importiert. Fehler kannst du direkt in der Tabelle korrigieren.
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
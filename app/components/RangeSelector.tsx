@@ -0,0 +1,30 @@
+'use client';
+
+import React from 'react';
+import { HISTORY_RANGES, HistoryRange } from '@/lib/portfolio-history';
+
+export interface RangeSelectorProps {
+  value: HistoryRange;
+  onChange: (range: HistoryRange) => void;
+}
+
+/**
+ * Buttons selecting a period (1M, 6M, YTD, 1J, 5J, Max)
+ */
+export const RangeSelector: React.FC<RangeSelectorProps> = ({ value, onChange }) => (
+  <div className="inline-flex rounded-lg bg-zinc-100 dark:bg-zinc-700 p-1">
+    {HISTORY_RANGES.map(({ range, label }) => (
+      <button
+        key={range}
+        onClick={() => onChange(range)}
+        className={`px-3 py-1 text-xs rounded-md font-medium transition-colors ${
+          value === range
+            ? 'bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-50 shadow'
+            : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50'
+        }`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import { HistoryRange } from '@/lib/portfolio-history';
+import { PeriodReturns } from '@/lib/returns';
+import { RangeSelector } from '@/app/components/RangeSelector';
+
+export interface ReturnsRow {
+  key: string;
+  label: string;
+  sublabel?: string;
+  returns?: PeriodReturns;
+  isTotal?: boolean; // Highlighted sum row
+}
+
+export interface ReturnsOverviewProps {
+  rows: ReturnsRow[];
+  range: HistoryRange;
+  onRangeChange: (range: HistoryRange) => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Formats a return (0.05) as +5.00%, '-' if there is none
+ */
+export const formatReturn = (value?: number) =>
+  value === undefined ? '-' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const getReturnColor = (value?: number) =>
+  value === undefined
+    ? 'text-zinc-400'
+    : value >= 0
+      ? 'text-green-600 dark:text-green-400'
+      : 'text-red-600 dark:text-red-400';
+
+/**
+ * Time-weighted (TWR) and money-weighted (IZF) returns of a period
+ */
+export const ReturnsOverview: React.FC<ReturnsOverviewProps> = ({ rows, range, onRangeChange, isLoading }) => (
+  <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6 mb-8">
+    <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+        Rendite
+        {isLoading && (
+          <span className="ml-2 text-sm font-normal text-zinc-500 dark:text-zinc-400">Lädt Kursverlauf...</span>
+        )}
+      </h2>
+      <RangeSelector value={range} onChange={onRangeChange} />
+    </div>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-zinc-50 dark:bg-zinc-900">
+          <tr>
+            <th className="px-4 py-2 text-left text-zinc-500 dark:text-zinc-400"></th>
+            <th
+              className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400"
+              title="Zeitgewichtete Rendite: unabhängig von Zeitpunkt und Höhe der Einzahlungen"
+            >
+              TWR
+            </th>
+            <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">TWR p.a.</th>
+            <th
+              className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400"
+              title="Interner Zinsfuß (geldgewichtete Rendite): berücksichtigt Zeitpunkt und Höhe der Einzahlungen"
+            >
+              IZF p.a.
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+          {rows.map((row) => (
+            <tr key={row.key} className={row.isTotal ? 'font-semibold' : undefined}>
+              <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50">
+                <p>{row.label}</p>
+                {row.sublabel && <p className="text-xs font-normal text-zinc-500 dark:text-zinc-400">{row.sublabel}</p>}
+              </td>
+              <td className={`px-4 py-2 text-right ${getReturnColor(row.returns?.twr)}`}>
+                {formatReturn(row.returns?.twr)}
+              </td>
+              <td className={`px-4 py-2 text-right ${getReturnColor(row.returns?.twrAnnualized)}`}>
+                {formatReturn(row.returns?.twrAnnualized)}
+              </td>
+              <td className={`px-4 py-2 text-right ${getReturnColor(row.returns?.xirr)}`}>
+                {formatReturn(row.returns?.xirr)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
@@ -0,0 +1,415 @@
+'use client';
+
+import React, { useState } from 'react';
+import { db, CurrencyCode, Transaction, TransactionType } from '@/lib/db';
+import {
+  TRANSACTION_TYPE_LABELS,
+  findNegativeHolding,
+  getQuantitySign,
+  sortTransactions,
+} from '@/lib/transactions';
+import { DropdownDepotViewer } from '@/app/components/DropdownDepotViewer';
+import { normalizeCurrency } from '@/lib/fx';
+import { getCurrencyOptions } from '@/lib/instruments';
+
+export interface TransactionLedgerProps {
+  bankId: number;
+  transactions: Transaction[];
+}
+
+const emptyFormData = {
+  type: 'sell' as TransactionType,
+  ticker: '',
+  isin: '',
+  date: '',
+  quantity: '',
+  price: '',
+  fees: '',
+  taxes: '',
+  currency: 'EUR' as CurrencyCode,
+  notes: '',
+};
+
+export const TransactionLedger: React.FC<TransactionLedgerProps> = ({ bankId, transactions }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState(emptyFormData);
+
+  // Known instruments of this bank (for quick selection)
+  const instruments = Array.from(
+    new Map(transactions.map((t) => [t.ticker, { ticker: t.ticker, isin: t.isin, currency: t.currency }])).values()
+  );
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSelectInstrument = (ticker: string) => {
+    const instrument = instruments.find((i) => i.ticker === ticker);
+    if (!instrument) return;
+    setFormData((prev) => ({
+      ...prev,
+      ticker: instrument.ticker,
+      isin: instrument.isin,
+      currency: instrument.currency,
+    }));
+  };
+
+  const handleCancel = () => {
+    setIsAdding(false);
+    setFormData(emptyFormData);
+  };
+
+  const handleAddTransaction = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.ticker || !formData.isin || !formData.date || !formData.quantity || !formData.price) {
+      alert('Bitte fülle alle Pflichtfelder aus');
+      return;
+    }
+
+    const quantity = parseFloat(formData.quantity);
+    const price = parseFloat(formData.price);
+    const date = new Date(formData.date);
+    const ticker = formData.ticker.trim().toUpperCase();
+
+    if (isNaN(quantity) || quantity <= 0) {
+      alert('Anzahl muss eine positive Zahl sein');
+      return;
+    }
+    if (isNaN(price) || price < 0) {
+      alert('Kurs darf nicht negativ sein');
+      return;
+    }
+
+    const transaction: Transaction = {
+      bankId,
+      isin: formData.isin.trim().toUpperCase(),
+      ticker,
+      type: formData.type,
+      date,
+      quantity,
+      price,
+      currency: formData.currency,
+      fees: parseFloat(formData.fees) || 0,
+      taxes: parseFloat(formData.taxes) || 0,
+      notes: formData.notes.trim() || undefined,
+      createdAt: new Date(),
+    };
+
+    // Shares can only leave the depot if they are held then and every later sale stays covered
+    if (getQuantitySign(formData.type) < 0) {
+      const shortfall = findNegativeHolding([...transactions, transaction], bankId, ticker);
+      if (shortfall) {
+        alert(
+          `Zum ${shortfall.date.toLocaleDateString('de-DE')} wären ${-shortfall.quantity} Stk. ${ticker} mehr verkauft als im Depot`
+        );
+        return;
+      }
+    }
+
+    try {
+      await db.transactions.add(transaction);
+
+      handleCancel();
+    } catch (error) {
+      console.error('Failed to add transaction:', error);
+      alert('Fehler beim Hinzufügen der Transaktion');
+    }
+  };
+
+  const handleDeleteTransaction = async (id: number) => {
+    // Without the shares of a buy later sales must still be covered
+    const deleted = transactions.find((t) => t.id === id);
+    if (deleted && getQuantitySign(deleted.type) > 0) {
+      const shortfall = findNegativeHolding(
+        transactions.filter((t) => t.id !== id),
+        deleted.bankId,
+        deleted.ticker
+      );
+      if (shortfall) {
+        alert(
+          `Die Transaktion kann nicht gelöscht werden: zum ${shortfall.date.toLocaleDateString('de-DE')} wären ${-shortfall.quantity} Stk. ${deleted.ticker} mehr verkauft als im Depot`
+        );
+        return;
+      }
+    }
+
+    if (!confirm('Transaktion wirklich löschen?')) return;
+
+    try {
+      await db.transactions.delete(id);
+    } catch (error) {
+      console.error('Failed to delete transaction:', error);
+      alert('Fehler beim Löschen der Transaktion');
+    }
+  };
+
+  const formatCurrency = (amount: number, currency: string) => {
+    // Pence (GBX) are shown as pounds
+    const normalized = normalizeCurrency(currency);
+    return new Intl.NumberFormat('de-DE', {
+      style: 'currency',
+      currency: normalized.currency,
+    }).format(amount * normalized.factor);
+  };
+
+  const sortedTransactions = sortTransactions(transactions).reverse();
+
+  return (
+    <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+          Transaktionen ({transactions.length})
+        </h3>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors text-sm inline-flex items-center gap-2"
+          >
+            <span>➕</span>
+            <span>Transaktion erfassen</span>
+          </button>
+        )}
+      </div>
+
+      {/* Add Transaction Form */}
+      {isAdding && (
+        <form onSubmit={handleAddTransaction} className="mb-6 p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <DropdownDepotViewer
+              label="Art"
+              value={formData.type}
+              onChange={(value) => setFormData((prev) => ({ ...prev, type: value as TransactionType }))}
+              options={(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map((type) => ({
+                value: type,
+                label: TRANSACTION_TYPE_LABELS[type],
+              }))}
+              required
+            />
+            <DropdownDepotViewer
+              label="Wertpapier aus diesem Depot"
+              value={formData.ticker}
+              onChange={handleSelectInstrument}
+              options={instruments.map((i) => ({ value: i.ticker, label: `${i.ticker} (${i.isin})` }))}
+            />
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Ticker *
+              </label>
+              <input
+                type="text"
+                name="ticker"
+                value={formData.ticker}
+                onChange={handleInputChange}
+                required
+                placeholder="z.B. MSFT"
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                ISIN *
+              </label>
+              <input
+                type="text"
+                name="isin"
+                value={formData.isin}
+                onChange={handleInputChange}
+                required
+                placeholder="z.B. US5949181045"
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Datum *
+              </label>
+              <input
+                type="date"
+                name="date"
+                value={formData.date}
+                onChange={handleInputChange}
+                required
+                className="w-full px-4 py-3 text-base border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+                style={{ minHeight: '48px' }}
+              />
+            </div>
+            <DropdownDepotViewer
+              label="Währung"
+              value={formData.currency}
+              onChange={(value) => setFormData((prev) => ({ ...prev, currency: value }))}
+              options={getCurrencyOptions(formData.currency)}
+              required
+            />
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Anzahl *
+              </label>
+              <input
+                type="number"
+                name="quantity"
+                value={formData.quantity}
+                onChange={handleInputChange}
+                step="0.001"
+                min="0"
+                required
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                {formData.type.startsWith('transfer')
+                  ? 'Einstandskurs (pro Stück) *'
+                  : formData.type === 'dividend'
+                    ? 'Dividende brutto (pro Stück) *'
+                    : 'Kurs (pro Stück) *'}
+              </label>
+              <input
+                type="number"
+                name="price"
+                value={formData.price}
+                onChange={handleInputChange}
+                step="0.01"
+                min="0"
+                required
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Gebühren
+              </label>
+              <input
+                type="number"
+                name="fees"
+                value={formData.fees}
+                onChange={handleInputChange}
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Steuern
+              </label>
+              <input
+                type="number"
+                name="taxes"
+                value={formData.taxes}
+                onChange={handleInputChange}
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Notizen (optional)
+              </label>
+              <textarea
+                name="notes"
+                value={formData.notes}
+                onChange={handleInputChange}
+                rows={2}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+              />
+            </div>
+          </div>
+          <div className="flex gap-3 mt-4">
+            <button
+              type="submit"
+              className="px-6 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors"
+            >
+              Speichern
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-6 py-2 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-50 border border-zinc-300 dark:border-zinc-700 rounded-lg font-medium hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors"
+            >
+              Abbrechen
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Transactions Table */}
+      {sortedTransactions.length === 0 ? (
+        <p className="text-center text-zinc-500 dark:text-zinc-400 py-4">
+          Noch keine Transaktionen vorhanden.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 dark:bg-zinc-900">
+              <tr>
+                <th className="px-4 py-2 text-left text-zinc-500 dark:text-zinc-400">Datum</th>
+                <th className="px-4 py-2 text-left text-zinc-500 dark:text-zinc-400">Art</th>
+                <th className="px-4 py-2 text-left text-zinc-500 dark:text-zinc-400">Ticker</th>
+                <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Anzahl</th>
+                <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Kurs</th>
+                <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Gebühren</th>
+                <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Steuern</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+              {sortedTransactions.map((transaction) => (
+                <tr key={transaction.id}>
+                  <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50">
+                    {new Date(transaction.date).toLocaleDateString('de-DE')}
+                  </td>
+                  <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50">
+                    {TRANSACTION_TYPE_LABELS[transaction.type]}
+                  </td>
+                  <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50">{transaction.ticker}</td>
+                  <td
+                    className={`px-4 py-2 text-right ${
+                      getQuantitySign(transaction.type) > 0
+                        ? 'text-green-600 dark:text-green-400'
+                        : getQuantitySign(transaction.type) < 0
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-zinc-900 dark:text-zinc-50'
+                    }`}
+                  >
+                    {getQuantitySign(transaction.type) > 0 ? '+' : getQuantitySign(transaction.type) < 0 ? '-' : ''}
+                    {transaction.quantity}
+                  </td>
+                  <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                    {formatCurrency(transaction.price, transaction.currency)}
+                  </td>
+                  <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                    {transaction.fees ? formatCurrency(transaction.fees, transaction.currency) : '-'}
+                  </td>
+                  <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                    {transaction.taxes ? formatCurrency(transaction.taxes, transaction.currency) : '-'}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {transaction.positionId !== undefined ? (
+                      <span className="text-xs text-zinc-500 dark:text-zinc-400" title="Wird über die Position verwaltet">
+                        Position
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => transaction.id && handleDeleteTransaction(transaction.id)}
+                        className="px-3 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      >
+                        Löschen
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
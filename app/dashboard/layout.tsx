@@ -0,0 +1,9 @@
+import { EncryptionGate } from '@/app/components/EncryptionGate';
+
+export default function DashboardLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <EncryptionGate>{children}</EncryptionGate>;
+}
@@ -1,11 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
-import { db, Position } from '@/lib/db';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { useSharedStockData, StockPrice, HistoricalData } from '@/lib/hooks/useSharedStockData';
+import { useFxRates } from '@/lib/hooks/useFxRates';
+import { usePortfolioHistory } from '@/lib/hooks/usePortfolioHistory';
+import { getReturnsPeriodBounds, useReturns } from '@/lib/hooks/useReturns';
+import { TRANSACTION_TYPE_LABELS } from '@/lib/transactions';
+import { Lot, matchLots, RealizedSale } from '@/lib/lots';
+import { BASE_CURRENCIES, BaseCurrency, normalizeCurrency } from '@/lib/fx';
+import { DropdownDepotViewer } from '@/app/components/DropdownDepotViewer';
+import { RangeSelector } from '@/app/components/RangeSelector';
+import { formatReturn, ReturnsOverview } from '@/app/components/ReturnsOverview';
+import { getActiveLedger } from '@/lib/banks';
+import { buildPortfolioHistory, getHistorySymbols, getRangeStart, HISTORY_RANGES, HistoryRange } from '@/lib/portfolio-history';
 
 interface AggregatedAsset {
   ticker: string;
@@ -15,14 +25,14 @@ interface AggregatedAsset {
   totalCurrentValue: number;
   averagePurchasePrice: number;
   currentPrice?: number;
-  currency: string;
+  currency: string; // Quote currency of currentPrice, all values are in the base currency
   dailyGain?: number;
   dailyGainPercent?: number;
   yearlyGain?: number;
   yearlyGainPercent?: number;
   currentYearDividends: number;
   expectedDividends?: number;
-  positions: Position[];
+  lots: Lot[];
 }
 
 type SortColumn = 'name' | 'value' | 'dailyGain' | 'yearlyGain' | 'currentDividends' | 'expectedDividends';
@@ -30,43 +40,90 @@ type SortDirection = 'asc' | 'desc';
 
 export default function DashboardPage() {
   const { stockPrices, historicalData, isLoadingData, fetchStockData, hasData } = useSharedStockData();
+  const { baseCurrency, setBaseCurrency, isLoadingRates, fetchFxRates, toBase } = useFxRates();
   const [sortColumn, setSortColumn] = useState<SortColumn>('value');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('1Y');
+  const [returnsRange, setReturnsRange] = useState<HistoryRange>('MAX');
+
+  // Load the transaction ledger of all banks (without the trash)
+  const ledger = useLiveQuery(() => getActiveLedger());
+  const transactions = ledger?.transactions;
+  const banks = ledger?.banks;
+
+  // Performance of a calendar year: start value, purchases at their cost and the market gain
+  const currentYear = new Date().getFullYear();
+  const [performanceYear, setPerformanceYear] = useState(currentYear);
+
+  // Daily closes (and FX rates into the base currency) from the earliest start of the chart, the returns and the year
+  const firstTransactionDate = useMemo(
+    () =>
+      transactions?.reduce<Date | undefined>(
+        (earliest, transaction) => (!earliest || new Date(transaction.date) < earliest ? new Date(transaction.date) : earliest),
+        undefined
+      ),
+    [transactions]
+  );
+  const historyStart = useMemo(
+    () => (firstTransactionDate ? getRangeStart(historyRange, firstTransactionDate) : undefined),
+    [firstTransactionDate, historyRange]
+  );
+  // Memoized, the returns are only recalculated when it changes
+  const tickerCurrencies: Record<string, string> = useMemo(
+    () =>
+      Object.fromEntries(
+        (transactions ?? []).map((transaction) => [
+          transaction.ticker,
+          stockPrices[transaction.ticker]?.currency ?? transaction.currency,
+        ])
+      ),
+    [transactions, stockPrices]
+  );
+  const closesStart = useMemo(() => {
+    const starts = [
+      historyStart,
+      getReturnsPeriodBounds(firstTransactionDate, returnsRange).from,
+      getReturnsPeriodBounds(firstTransactionDate, performanceYear).from,
+    ].filter((start): start is Date => start !== undefined);
+    return starts.length > 0 ? new Date(Math.min(...starts.map((start) => start.getTime()))) : undefined;
+  }, [firstTransactionDate, historyStart, returnsRange, performanceYear]);
+  const historySymbols = getHistorySymbols(transactions ?? [], tickerCurrencies, baseCurrency);
+  const history = usePortfolioHistory(historySymbols, closesStart);
+  const { closes, isLoadingHistory } = history;
+
+  // Time- and money-weighted returns of the selected period
+  const { returns, isLoadingReturns } = useReturns(transactions, tickerCurrencies, baseCurrency, returnsRange, history);
+  const returnsRangeLabel = HISTORY_RANGES.find(({ range }) => range === returnsRange)?.label;
+
+  // Returns of the selected calendar year
+  const { returns: yearReturns } = useReturns(transactions, tickerCurrencies, baseCurrency, performanceYear, history);
+  const performanceYears = Array.from(
+    { length: currentYear - (firstTransactionDate?.getFullYear() ?? currentYear) + 1 },
+    (_, i) => currentYear - i
+  );
 
-  // Load all positions from all banks
-  const positions = useLiveQuery(() => db.positions.toArray());
-  const banks = useLiveQuery(() => db.banks.toArray());
-
-  // Calculate yearly performance for a specific asset
-  const calculateYearlyPerformance = (
-    ticker: string,
-    currentPrice: number,
-    totalQuantity: number
-  ): { yearlyGain?: number; yearlyGainPercent?: number } => {
-    const historical = historicalData[ticker];
-    if (!historical?.yearStartPrice) {
-      return {};
+  // Converts into the base currency (at the rate of the given date)
+  // Amounts without a known rate stay unconverted and are reported below the header
+  const missingCurrencies = new Set<string>();
+  const convert = (amount: number, currency: string, date?: Date) => {
+    const converted = toBase(amount, currency, date);
+    if (converted === undefined) {
+      missingCurrencies.add(normalizeCurrency(currency).currency);
+      return amount;
     }
-
-    const yearlyGain = totalQuantity * (currentPrice - historical.yearStartPrice);
-    const yearlyGainPercent =
-      ((currentPrice - historical.yearStartPrice) / historical.yearStartPrice) * 100;
-
-    console.log(`[Dashboard] ${ticker} yearly performance:`, {
-      yearStartPrice: historical.yearStartPrice,
-      currentPrice,
-      yearlyGain,
-      yearlyGainPercent,
-    });
-
-    return { yearlyGain, yearlyGainPercent };
+    return converted;
   };
 
-  // Aggregate positions by ticker
-  const aggregatedAssets: AggregatedAsset[] = positions
+  // FIFO lots and realized sales of the whole ledger
+  const { openLots, sales: realizedSales } = transactions
+    ? matchLots(transactions)
+    : { openLots: [] as Lot[], sales: [] as RealizedSale[] };
+
+  // Aggregate open lots (derived from the ledger) by ticker
+  const aggregatedAssets: AggregatedAsset[] = transactions
     ? Object.values(
-        positions.reduce((acc, position) => {
-          const ticker = position.ticker;
+        openLots.reduce((acc, lot) => {
+          const ticker = lot.ticker;
           if (!acc[ticker]) {
             acc[ticker] = {
               ticker,
@@ -75,15 +132,16 @@ export default function DashboardPage() {
               totalPurchaseValue: 0,
               totalCurrentValue: 0,
               averagePurchasePrice: 0,
-              currency: position.currency,
+              currency: lot.currency,
               currentYearDividends: 0,
-              positions: [],
+              lots: [],
             };
           }
 
-          acc[ticker].totalQuantity += position.quantity;
-          acc[ticker].totalPurchaseValue += position.quantity * position.purchasePrice;
-          acc[ticker].positions.push(position);
+          // Cost basis at the FX rate of the purchase date
+          acc[ticker].totalQuantity += lot.remainingQuantity;
+          acc[ticker].totalPurchaseValue += convert(lot.remainingQuantity * lot.costPerShare, lot.currency, lot.date);
+          acc[ticker].lots.push(lot);
 
           return acc;
         }, {} as Record<string, AggregatedAsset>)
@@ -94,31 +152,36 @@ export default function DashboardPage() {
         const stockPrice = stockPrices[ticker];
         const historical = historicalData[ticker];
 
+        // Gain/loss of the performance year, purchases during the year count from their cost
+        const yearPerformance = yearReturns?.byTicker[ticker];
+        if (yearPerformance) {
+          asset.yearlyGain = yearPerformance.marketGain;
+          asset.yearlyGainPercent =
+            yearPerformance.marketGainPercent !== undefined ? yearPerformance.marketGainPercent * 100 : undefined;
+        }
+
         if (stockPrice) {
           asset.name = stockPrice.name;
+          asset.currency = stockPrice.currency;
           asset.currentPrice = stockPrice.currentPrice;
-          asset.totalCurrentValue = asset.totalQuantity * stockPrice.currentPrice;
+          asset.totalCurrentValue = convert(asset.totalQuantity * stockPrice.currentPrice, stockPrice.currency);
 
           // Daily gain/loss
           if (historical?.previousClose) {
-            asset.dailyGain =
-              asset.totalQuantity * (stockPrice.currentPrice - historical.previousClose);
+            asset.dailyGain = convert(
+              asset.totalQuantity * (stockPrice.currentPrice - historical.previousClose),
+              stockPrice.currency
+            );
             asset.dailyGainPercent =
               ((stockPrice.currentPrice - historical.previousClose) / historical.previousClose) * 100;
           }
 
-          // Yearly gain/loss - using separate method
-          const yearlyPerf = calculateYearlyPerformance(
-            ticker,
-            stockPrice.currentPrice,
-            asset.totalQuantity
-          );
-          asset.yearlyGain = yearlyPerf.yearlyGain;
-          asset.yearlyGainPercent = yearlyPerf.yearlyGainPercent;
-
           // Dividends - simplified using stockPrices directly
           if (stockPrice.trailingDividendRate) {
-            asset.currentYearDividends = stockPrice.trailingDividendRate * asset.totalQuantity;
+            asset.currentYearDividends = convert(
+              stockPrice.trailingDividendRate * asset.totalQuantity,
+              stockPrice.currency
+            );
             console.log(`[Dashboard] ${ticker} current dividends (trailing):`, {
               trailingDividendRate: stockPrice.trailingDividendRate,
               totalQuantity: asset.totalQuantity,
@@ -127,7 +190,7 @@ export default function DashboardPage() {
           }
 
           if (stockPrice.dividendRate) {
-            asset.expectedDividends = stockPrice.dividendRate * asset.totalQuantity;
+            asset.expectedDividends = convert(stockPrice.dividendRate * asset.totalQuantity, stockPrice.currency);
             console.log(`[Dashboard] ${ticker} expected dividends (forward):`, {
               dividendRate: stockPrice.dividendRate,
               totalQuantity: asset.totalQuantity,
@@ -151,94 +214,20 @@ export default function DashboardPage() {
   const totalGain = portfolioTotal - purchaseTotal;
   const totalGainPercent = purchaseTotal > 0 ? (totalGain / purchaseTotal) * 100 : 0;
 
-  // 2. Akkumulierte Performance (% p.a.) - annualisiert vom ersten Kaufdatum
-  const calculateAnnualizedReturn = () => {
-    if (!positions || positions.length === 0 || purchaseTotal === 0) return 0;
-
-    // Finde das früheste Kaufdatum
-    const firstPurchaseDate = positions.reduce((earliest, position) => {
-      const purchaseDate = new Date(position.purchaseDate);
-      return purchaseDate < earliest ? purchaseDate : earliest;
-    }, new Date(positions[0].purchaseDate));
-
-    // Berechne die Anzahl der Jahre seit dem ersten Kauf
-    const today = new Date();
-    const yearsHeld = (today.getTime() - firstPurchaseDate.getTime()) / (1000 * 60 * 60 * 24 * 365.25);
-
-    if (yearsHeld < 0.01) return 0; // Zu kurze Zeitspanne
-
-    // Annualisierte Rendite: ((EndValue / StartValue) ^ (1 / Jahre) - 1) * 100
-    const annualizedReturn = (Math.pow(portfolioTotal / purchaseTotal, 1 / yearsHeld) - 1) * 100;
-
-    console.log('[Dashboard] Annualized return:', {
-      firstPurchaseDate: firstPurchaseDate.toISOString(),
-      yearsHeld,
-      purchaseTotal,
-      portfolioTotal,
-      annualizedReturn,
-    });
-
-    return annualizedReturn;
-  };
-
-  const annualizedReturnPercent = calculateAnnualizedReturn();
-
-  // 3 & 4. Jahresperformance 2025
-  const calculateYearToDatePerformance = () => {
-    if (!positions || positions.length === 0) {
-      return { ytdGain: 0, ytdGainPercent: 0, yearStartValue: 0 };
-    }
-
-    const currentYear = new Date().getFullYear();
-    const yearStartDate = new Date(currentYear, 0, 1);
-
-    // Berechne den Depotwert am 1. Januar 2025
-    let yearStartValue = 0;
-
-    positions.forEach((position) => {
-      const purchaseDate = new Date(position.purchaseDate);
-
-      // Position muss vor dem 1.1. gekauft worden sein
-      if (purchaseDate < yearStartDate) {
-        const historical = historicalData[position.ticker];
-
-        if (historical?.yearStartPrice) {
-          // Wert dieser Position am 1.1.
-          yearStartValue += position.quantity * historical.yearStartPrice;
-        }
-      }
-    });
-
-    // Nur Positionen berücksichtigen, die am 1.1. bereits im Depot waren
-    // Für den aktuellen Wert zählen wir nur die Positionen, die am 1.1. schon da waren
-    let currentValueOfYearStartPositions = 0;
-
-    positions.forEach((position) => {
-      const purchaseDate = new Date(position.purchaseDate);
-
-      if (purchaseDate < yearStartDate) {
-        const stockPrice = stockPrices[position.ticker];
-
-        if (stockPrice) {
-          currentValueOfYearStartPositions += position.quantity * stockPrice.currentPrice;
-        }
-      }
-    });
-
-    const ytdGain = currentValueOfYearStartPositions - yearStartValue;
-    const ytdGainPercent = yearStartValue > 0 ? (ytdGain / yearStartValue) * 100 : 0;
-
-    console.log('[Dashboard] YTD Performance:', {
-      yearStartValue,
-      currentValueOfYearStartPositions,
-      ytdGain,
-      ytdGainPercent,
-    });
-
-    return { ytdGain, ytdGainPercent, yearStartValue };
-  };
-
-  const { ytdGain, ytdGainPercent, yearStartValue } = calculateYearToDatePerformance();
+  // Realisierte Gewinne aus Verkäufen (FIFO je Depot)
+  // Erlös zum Kurs am Verkaufstag, Einstand zum Kurs am jeweiligen Kaufdatum
+  const getRealizedGain = (sale: RealizedSale) =>
+    convert(sale.proceeds, sale.currency, sale.date) -
+    sale.consumedLots.reduce((sum, lot) => sum + convert(lot.costBasis, sale.currency, lot.date), 0);
+  const totalRealizedGain = realizedSales.reduce((sum, sale) => sum + getRealizedGain(sale), 0);
+  const currentYearRealizedGain = realizedSales
+    .filter((sale) => sale.date.getFullYear() === currentYear)
+    .reduce((sum, sale) => sum + getRealizedGain(sale), 0);
+  // Sales of more shares than were bought are only booked for the bought part
+  const unmatchedSales = realizedSales.filter((sale) => sale.unmatchedQuantity > 0);
+
+  // 3 & 4. Jahresperformance: Wert zu Jahresbeginn plus Käufe im Jahr zum Kaufpreis
+  const yearPerformance = yearReturns?.total;
 
   // Dividends totals
   const totalCurrentYearDividends = aggregatedAssets.reduce(
@@ -252,12 +241,12 @@ export default function DashboardPage() {
 
   // Fetch all stock data
   const handleFetchAllData = async () => {
-    if (!positions || positions.length === 0) {
+    if (!transactions || transactions.length === 0) {
       alert('Keine Positionen vorhanden');
       return;
     }
 
-    const tickers = [...new Set(positions.map((p) => p.ticker))];
+    const tickers = [...new Set(transactions.map((t) => t.ticker))];
 
     try {
       await fetchStockData(tickers);
@@ -269,10 +258,20 @@ export default function DashboardPage() {
 
   // Auto-fetch on mount if no data
   useEffect(() => {
-    if (positions && positions.length > 0 && !hasData) {
+    if (transactions && transactions.length > 0 && !hasData) {
       handleFetchAllData();
     }
-  }, [positions, hasData]);
+  }, [transactions, hasData]);
+
+  // Fetch FX rates into the base currency (historical rates for every transaction date)
+  useEffect(() => {
+    if (!transactions) return;
+
+    fetchFxRates([
+      ...transactions.map((transaction) => ({ currency: transaction.currency, date: transaction.date })),
+      ...Object.values(stockPrices).map((stockPrice) => ({ currency: stockPrice.currency })),
+    ]);
+  }, [transactions, stockPrices, fetchFxRates]);
 
   // Sorting logic
   const handleSort = (column: SortColumn) => {
@@ -326,81 +325,49 @@ export default function DashboardPage() {
       : (bValue as number) - (aValue as number);
   });
 
-  // Chart data (step-wise based on actual purchases)
-  const chartData = (() => {
-    if (!positions || positions.length === 0 || !banks) return [];
+  // Chart data: holdings of each day at that day's close (weekly for long ranges)
+  // Memoized, the ledger is replayed for every day of the range
+  const chartData = useMemo(() => {
+    if (!transactions || transactions.length === 0 || !banks || !historyStart) return [];
 
     // Create a map for quick bank lookup
     const bankMap = new Map(banks.map(bank => [bank.id, bank.name]));
 
-    // Group positions by date
-    const positionsByDate = new Map<string, Position[]>();
-    positions.forEach((position) => {
-      const dateKey = new Date(position.purchaseDate).toISOString().split('T')[0];
-      if (!positionsByDate.has(dateKey)) {
-        positionsByDate.set(dateKey, []);
-      }
-      positionsByDate.get(dateKey)!.push(position);
-    });
-
-    // Sort dates
-    const sortedDates = Array.from(positionsByDate.keys()).sort();
-
-    const dataPoints = [];
-    let cumulativePurchaseValue = 0;
-    let cumulativeCurrentValue = 0;
-
-    // Add data point for each date (potentially multiple positions)
-    sortedDates.forEach((dateKey) => {
-      const positionsOnDate = positionsByDate.get(dateKey)!;
-
-      // Calculate values for all positions on this date
-      let datePurchaseValue = 0;
-      let dateCurrentValue = 0;
-
-      const positionDetails = positionsOnDate.map((position) => {
-        const purchaseValue = position.quantity * position.purchasePrice;
-        datePurchaseValue += purchaseValue;
-
-        const stockPrice = stockPrices[position.ticker];
-        const currentValue = stockPrice
-          ? position.quantity * stockPrice.currentPrice
-          : purchaseValue;
-        dateCurrentValue += currentValue;
-
-        return {
-          ticker: position.ticker,
-          quantity: position.quantity,
-          bankName: bankMap.get(position.bankId) || 'Unbekanntes Depot',
-          purchaseValue,
-          currentValue,
-        };
-      });
-
-      cumulativePurchaseValue += datePurchaseValue;
-      cumulativeCurrentValue += dateCurrentValue;
-
-      dataPoints.push({
-        date: new Date(dateKey).toLocaleDateString('de-DE', {
+    return buildPortfolioHistory({
+      transactions,
+      closes,
+      currencies: tickerCurrencies,
+      baseCurrency,
+      from: historyStart,
+      to: new Date(),
+      interval: historyRange === '5Y' || historyRange === 'MAX' ? 'weekly' : 'daily',
+    }).map((point) => {
+      const date = new Date(`${point.date}T00:00:00`);
+      return {
+        date: date.toLocaleDateString('de-DE', {
           year: '2-digit',
           month: 'short',
           day: 'numeric',
         }),
-        fullDate: new Date(dateKey).toLocaleDateString('de-DE'),
-        portfolioValue: cumulativeCurrentValue,
-        purchaseValue: cumulativePurchaseValue,
-        positions: positionDetails,
-      });
+        fullDate: date.toLocaleDateString('de-DE'),
+        portfolioValue: point.value,
+        purchaseValue: point.invested,
+        positions: point.transactions.map((transaction) => ({
+          ticker: transaction.ticker,
+          quantity: transaction.quantity,
+          typeLabel: TRANSACTION_TYPE_LABELS[transaction.type],
+          bankName: bankMap.get(transaction.bankId) || 'Unbekanntes Depot',
+        })),
+      };
     });
+  }, [transactions, banks, closes, tickerCurrencies, baseCurrency, historyStart, historyRange]);
 
-    return dataPoints;
-  })();
-
-  const formatCurrency = (amount: number, currency: string = 'EUR') => {
+  const formatCurrency = (amount: number, currency: string = baseCurrency) => {
+    const normalized = normalizeCurrency(currency);
     return new Intl.NumberFormat('de-DE', {
       style: 'currency',
-      currency,
-    }).format(amount);
+      currency: normalized.currency,
+    }).format(amount * normalized.factor);
   };
 
   const SortIcon = ({ column }: { column: SortColumn }) => {
@@ -423,13 +390,13 @@ export default function DashboardPage() {
         {/* Portfolio Values */}
         <div className="mb-3 space-y-1">
           <div className="flex justify-between items-center gap-4">
-            <span className="text-zinc-400 text-xs">Aktueller Wert:</span>
+            <span className="text-zinc-400 text-xs">Depotwert:</span>
             <span className="text-zinc-100 font-semibold text-sm">
               {formatCurrency(data.portfolioValue)}
             </span>
           </div>
           <div className="flex justify-between items-center gap-4">
-            <span className="text-zinc-400 text-xs">Kaufwert:</span>
+            <span className="text-zinc-400 text-xs">Investiert:</span>
             <span className="text-zinc-400 text-sm">
               {formatCurrency(data.purchaseValue)}
             </span>
@@ -440,7 +407,7 @@ export default function DashboardPage() {
         {data.positions && data.positions.length > 0 && (
           <div className="border-t border-zinc-700 pt-3 mt-3">
             <p className="text-zinc-400 text-xs mb-2">
-              {data.positions.length === 1 ? 'Position gekauft:' : `${data.positions.length} Positionen gekauft:`}
+              {data.positions.length === 1 ? '1 Transaktion:' : `${data.positions.length} Transaktionen:`}
             </p>
             <div className="space-y-2">
               {data.positions.map((pos: any, idx: number) => (
@@ -450,7 +417,7 @@ export default function DashboardPage() {
                       {pos.ticker}
                     </span>
                     <span className="text-zinc-300 text-xs">
-                      {pos.quantity} Stk.
+                      {pos.typeLabel} • {pos.quantity} Stk.
                     </span>
                   </div>
                   <div className="text-zinc-400 text-xs">
@@ -474,7 +441,13 @@ export default function DashboardPage() {
             <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50">
               Portfolio Dashboard
             </h1>
-            <div className="flex gap-3">
+            <div className="flex gap-3 items-end">
+              <DropdownDepotViewer
+                value={baseCurrency}
+                onChange={(value) => setBaseCurrency(value as BaseCurrency)}
+                options={BASE_CURRENCIES.map((currency) => ({ value: currency, label: currency }))}
+                className="w-28"
+              />
               <button
                 onClick={handleFetchAllData}
                 disabled={isLoadingData}
@@ -483,6 +456,12 @@ export default function DashboardPage() {
                 <span>{isLoadingData ? '⏳' : '🔄'}</span>
                 <span>{isLoadingData ? 'Lädt...' : 'Daten aktualisieren'}</span>
               </button>
+              <Link
+                href="/tax-report"
+                className="px-4 py-2.5 text-sm bg-zinc-100 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg font-medium hover:bg-zinc-200 dark:hover:bg-zinc-600 transition-colors inline-flex items-center gap-2"
+              >
+                Steuerreport
+              </Link>
               <Link
                 href="/depots"
                 className="px-4 py-2.5 text-sm bg-zinc-100 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg font-medium hover:bg-zinc-200 dark:hover:bg-zinc-600 transition-colors inline-flex items-center gap-2"
@@ -492,9 +471,15 @@ export default function DashboardPage() {
             </div>
           </div>
 
+          {missingCurrencies.size > 0 && !isLoadingRates && (
+            <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg text-sm">
+              Keine Wechselkurse für {[...missingCurrencies].join(', ')} → {baseCurrency}. Betroffene Beträge sind nicht umgerechnet.
+            </div>
+          )}
+
           {/* Portfolio Summary Cards */}
           {/* Erste Reihe: Performance-Metriken */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
               <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-1">Gesamtwert</p>
               <p className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
@@ -524,38 +509,64 @@ export default function DashboardPage() {
             </div>
 
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
-              <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-1">Akk. Perf. p.a.</p>
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-1">Realisierte Gewinne</p>
+              <p
+                className={`text-2xl font-bold ${
+                  totalRealizedGain >= 0
+                    ? 'text-green-600 dark:text-green-400'
+                    : 'text-red-600 dark:text-red-400'
+                }`}
+              >
+                {totalRealizedGain >= 0 ? '+' : ''}
+                {formatCurrency(totalRealizedGain)}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
+                {new Date().getFullYear()}: {formatCurrency(currentYearRealizedGain)} • {realizedSales.length} Verkäufe
+              </p>
+              {unmatchedSales.length > 0 && (
+                <p
+                  className="text-xs text-red-600 dark:text-red-400 mt-1"
+                  title={unmatchedSales
+                    .map((sale) => `${sale.ticker} ${sale.date.toLocaleDateString('de-DE')}: ${sale.unmatchedQuantity} Stk.`)
+                    .join('\n')}
+                >
+                  ⚠️ {unmatchedSales.length} Verkäufe ohne passenden Kauf (nur teilweise verbucht)
+                </p>
+              )}
+            </div>
+
+            <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-1">IZF p.a. ({returnsRangeLabel})</p>
               <p
                 className={`text-2xl font-bold ${
-                  annualizedReturnPercent >= 0
+                  (returns?.total.xirr ?? 0) >= 0
                     ? 'text-green-600 dark:text-green-400'
                     : 'text-red-600 dark:text-red-400'
                 }`}
               >
-                {annualizedReturnPercent >= 0 ? '+' : ''}
-                {annualizedReturnPercent.toFixed(2)}%
+                {formatReturn(returns?.total.xirr)}
               </p>
               <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
-                annualisiert
+                TWR: {formatReturn(returns?.total.twr)}
               </p>
             </div>
 
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
               <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-1">
-                Perf. {new Date().getFullYear()}
+                Perf. {performanceYear}
               </p>
               <p
                 className={`text-2xl font-bold ${
-                  ytdGain >= 0
+                  (yearPerformance?.marketGain ?? 0) >= 0
                     ? 'text-green-600 dark:text-green-400'
                     : 'text-red-600 dark:text-red-400'
                 }`}
               >
-                {ytdGain >= 0 ? '+' : ''}
-                {formatCurrency(ytdGain)}
+                {(yearPerformance?.marketGain ?? 0) >= 0 ? '+' : ''}
+                {formatCurrency(yearPerformance?.marketGain ?? 0)}
               </p>
               <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
-                1.1.: {formatCurrency(yearStartValue)}
+                Kursgewinn (inkl. Dividenden)
               </p>
             </div>
           </div>
@@ -563,22 +574,50 @@ export default function DashboardPage() {
           {/* Zweite Reihe: Jahresperformance % + Dividenden */}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
-              <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-1">
-                Perf. {new Date().getFullYear()} %
-              </p>
+              <div className="flex justify-between items-start gap-2 mb-1">
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  Perf. {performanceYear} %
+                </p>
+                <DropdownDepotViewer
+                  value={String(performanceYear)}
+                  onChange={(value) => setPerformanceYear(Number(value))}
+                  options={performanceYears.map((year) => ({ value: String(year), label: String(year) }))}
+                  className="w-24"
+                />
+              </div>
               <p
                 className={`text-2xl font-bold ${
-                  ytdGainPercent >= 0
+                  (yearPerformance?.marketGainPercent ?? 0) >= 0
                     ? 'text-green-600 dark:text-green-400'
                     : 'text-red-600 dark:text-red-400'
                 }`}
               >
-                {ytdGainPercent >= 0 ? '+' : ''}
-                {ytdGainPercent.toFixed(2)}%
-              </p>
-              <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
-                seit 1.1.{new Date().getFullYear()}
+                {formatReturn(yearPerformance?.marketGainPercent)}
               </p>
+              {yearPerformance && (
+                <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-1 space-y-0.5">
+                  <p className="flex justify-between gap-2">
+                    <span>Wert {new Date(`${yearPerformance.from}T00:00:00`).toLocaleDateString('de-DE')}:</span>
+                    <span>{formatCurrency(yearPerformance.startValue)}</span>
+                  </p>
+                  <p className="flex justify-between gap-2">
+                    <span>Einzahlungen (Kaufpreis):</span>
+                    <span>+{formatCurrency(yearPerformance.contributions)}</span>
+                  </p>
+                  <p className="flex justify-between gap-2">
+                    <span>Entnahmen (Verkäufe, Dividenden):</span>
+                    <span>-{formatCurrency(yearPerformance.withdrawals)}</span>
+                  </p>
+                  <p className="flex justify-between gap-2">
+                    <span>Kursgewinn:</span>
+                    <span>{yearPerformance.marketGain >= 0 ? '+' : ''}{formatCurrency(yearPerformance.marketGain)}</span>
+                  </p>
+                  <p className="flex justify-between gap-2 font-medium">
+                    <span>Wert {new Date(`${yearPerformance.to}T00:00:00`).toLocaleDateString('de-DE')}:</span>
+                    <span>{formatCurrency(yearPerformance.endValue)}</span>
+                  </p>
+                </div>
+              )}
             </div>
 
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
@@ -606,11 +645,32 @@ export default function DashboardPage() {
             </div>
           </div>
 
+          {/* Returns of the portfolio and each bank */}
+          {transactions && transactions.length > 0 && (
+            <ReturnsOverview
+              range={returnsRange}
+              onRangeChange={setReturnsRange}
+              isLoading={isLoadingReturns}
+              rows={[
+                { key: 'total', label: 'Gesamtportfolio', returns: returns?.total, isTotal: true },
+                ...(banks ?? [])
+                  .filter((bank) => transactions.some((t) => t.bankId === bank.id))
+                  .map((bank) => ({ key: `bank-${bank.id}`, label: bank.name, returns: returns?.byBank[bank.id!] })),
+              ]}
+            />
+          )}
+
           {/* Portfolio Chart */}
           <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6 mb-8">
-            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
-              Portfolio-Entwicklung
-            </h2>
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                Portfolio-Entwicklung
+                {isLoadingHistory && (
+                  <span className="ml-2 text-sm font-normal text-zinc-500 dark:text-zinc-400">Lädt Kursverlauf...</span>
+                )}
+              </h2>
+              <RangeSelector value={historyRange} onChange={setHistoryRange} />
+            </div>
             {chartData.length > 0 ? (
               <ResponsiveContainer width="100%" height={300}>
                 <LineChart data={chartData}>
@@ -627,20 +687,20 @@ export default function DashboardPage() {
                   <Tooltip content={<CustomTooltip />} />
                   <Legend />
                   <Line
-                    type="stepAfter"
+                    type="monotone"
                     dataKey="portfolioValue"
                     stroke="#000000"
                     strokeWidth={2}
-                    name="Aktueller Wert"
-                    dot={{ r: 3 }}
+                    name="Depotwert"
+                    dot={false}
                   />
                   <Line
                     type="stepAfter"
                     dataKey="purchaseValue"
                     stroke="#9CA3AF"
                     strokeWidth={2}
-                    name="Kaufwert"
-                    dot={{ r: 3 }}
+                    name="Investiertes Kapital"
+                    dot={false}
                     strokeDasharray="5 5"
                   />
                 </LineChart>
@@ -685,7 +745,7 @@ export default function DashboardPage() {
                       className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800"
                       onClick={() => handleSort('yearlyGain')}
                     >
-                      Jahres +/- <SortIcon column="yearlyGain" />
+                      +/- {performanceYear} <SortIcon column="yearlyGain" />
                     </th>
                     <th
                       className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800"
@@ -699,6 +759,9 @@ export default function DashboardPage() {
                     >
                       Erw. Div. {new Date().getFullYear() + 1} <SortIcon column="expectedDividends" />
                     </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                      TWR / IZF ({returnsRangeLabel})
+                    </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
@@ -719,7 +782,7 @@ export default function DashboardPage() {
                       </td>
                       <td className="px-6 py-4 text-right">
                         <p className="font-medium text-zinc-900 dark:text-zinc-50">
-                          {formatCurrency(asset.totalCurrentValue, asset.currency)}
+                          {formatCurrency(asset.totalCurrentValue)}
                         </p>
                         <p className="text-sm text-zinc-500 dark:text-zinc-400">
                           {asset.currentPrice && formatCurrency(asset.currentPrice, asset.currency)}
@@ -736,7 +799,7 @@ export default function DashboardPage() {
                               }`}
                             >
                               {asset.dailyGain >= 0 ? '+' : ''}
-                              {formatCurrency(asset.dailyGain, asset.currency)}
+                              {formatCurrency(asset.dailyGain)}
                             </p>
                             <p
                               className={`text-sm ${
@@ -764,7 +827,7 @@ export default function DashboardPage() {
                               }`}
                             >
                               {asset.yearlyGain >= 0 ? '+' : ''}
-                              {formatCurrency(asset.yearlyGain, asset.currency)}
+                              {formatCurrency(asset.yearlyGain)}
                             </p>
                             <p
                               className={`text-sm ${
@@ -784,17 +847,31 @@ export default function DashboardPage() {
                       <td className="px-6 py-4 text-right">
                         <p className="font-medium text-zinc-900 dark:text-zinc-50">
                           {asset.currentYearDividends > 0
-                            ? formatCurrency(asset.currentYearDividends, asset.currency)
+                            ? formatCurrency(asset.currentYearDividends)
                             : '-'}
                         </p>
                       </td>
                       <td className="px-6 py-4 text-right">
                         <p className="font-medium text-zinc-900 dark:text-zinc-50">
                           {asset.expectedDividends
-                            ? formatCurrency(asset.expectedDividends, asset.currency)
+                            ? formatCurrency(asset.expectedDividends)
                             : '-'}
                         </p>
                       </td>
+                      <td className="px-6 py-4 text-right">
+                        <p
+                          className={`font-medium ${
+                            (returns?.byTicker[asset.ticker]?.twr ?? 0) >= 0
+                              ? 'text-green-600 dark:text-green-400'
+                              : 'text-red-600 dark:text-red-400'
+                          }`}
+                        >
+                          {formatReturn(returns?.byTicker[asset.ticker]?.twr)}
+                        </p>
+                        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                          {formatReturn(returns?.byTicker[asset.ticker]?.xirr)} p.a.
+                        </p>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -839,7 +916,9 @@ export default function DashboardPage() {
                       </p>
                     </div>
                     <p className="font-medium text-zinc-900 dark:text-zinc-50">
-                      {formatCurrency(div.amount * (div.asset?.totalQuantity || 0))}
+                      {formatCurrency(
+                        convert(div.amount * (div.asset?.totalQuantity || 0), div.asset?.currency ?? baseCurrency)
+                      )}
                     </p>
                   </div>
                 ))}
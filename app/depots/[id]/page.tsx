@@ -1,18 +1,29 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { db, Bank, Position } from '@/lib/db';
+import { db, AssetType, Bank, CurrencyCode, FundType, Position } from '@/lib/db';
 import { useLiveQuery } from 'dexie-react-hooks';
 import {
   downloadExamplePositionCSV,
   exportPositionsToCSV,
-  parsePositionCSV,
 } from '@/lib/csv-positions';
 import { readFile } from '@/lib/csv-utils';
 import { DropdownDepotViewer } from '@/app/components/DropdownDepotViewer';
+import { TransactionLedger } from '@/app/components/TransactionLedger';
+import { ImportUndoBanner } from '@/app/components/ImportUndoBanner';
+import { ReturnsOverview } from '@/app/components/ReturnsOverview';
+import { restoreBank } from '@/lib/banks';
 import { useSharedStockData } from '@/lib/hooks/useSharedStockData';
+import { useFxRates } from '@/lib/hooks/useFxRates';
+import { useReturns } from '@/lib/hooks/useReturns';
+import { HistoryRange } from '@/lib/portfolio-history';
+import { addPositions, deletePosition, updatePosition } from '@/lib/transactions';
+import { deriveHoldings } from '@/lib/lots';
+import { FUND_TYPE_LABELS } from '@/lib/tax';
+import { normalizeCurrency } from '@/lib/fx';
+import { ASSET_TYPES, ASSET_TYPE_LABELS, getCurrencyOptions, isInvestmentFund } from '@/lib/instruments';
 
 export default function BankDetailPage() {
   const params = useParams();
@@ -24,11 +35,12 @@ export default function BankDetailPage() {
   const [formData, setFormData] = useState({
     isin: '',
     ticker: '',
-    assetType: 'stock' as 'stock' | 'etf' | 'bond',
+    assetType: 'stock' as AssetType,
+    fundType: 'equity' as FundType,
     purchaseDate: '',
     quantity: '',
     purchasePrice: '',
-    currency: 'EUR' as 'EUR' | 'USD',
+    currency: 'EUR' as CurrencyCode,
     notes: '',
   });
   const [wkn, setWkn] = useState(''); // WKN helper field for search
@@ -36,11 +48,12 @@ export default function BankDetailPage() {
   const [editFormData, setEditFormData] = useState({
     isin: '',
     ticker: '',
-    assetType: 'stock' as 'stock' | 'etf' | 'bond',
+    assetType: 'stock' as AssetType,
+    fundType: 'equity' as FundType,
     purchaseDate: '',
     quantity: '',
     purchasePrice: '',
-    currency: 'EUR' as 'EUR' | 'USD',
+    currency: 'EUR' as CurrencyCode,
     notes: '',
   });
   const [editWkn, setEditWkn] = useState(''); // WKN helper field for search
@@ -70,6 +83,39 @@ export default function BankDetailPage() {
     () => db.positions.where('bankId').equals(bankId).toArray(),
     [bankId]
   );
+  const transactions = useLiveQuery(
+    () => db.transactions.where('bankId').equals(bankId).toArray(),
+    [bankId]
+  );
+
+  // Lots of transferred shares come from the sending depot, so holdings are derived from all banks
+  const allTransactions = useLiveQuery(() => db.transactions.toArray());
+
+  // Current holdings derived from the ledger
+  const holdings = allTransactions
+    ? deriveHoldings(allTransactions).filter((holding) => holding.bankId === bankId)
+    : [];
+  const holdingsPurchaseTotal = holdings.reduce((sum, h) => sum + h.costBasis, 0);
+  const holdingsCurrentTotal = holdings.reduce((sum, h) => {
+    const price = stockPrices[h.ticker];
+    return sum + (price ? h.quantity * price.currentPrice : h.costBasis);
+  }, 0);
+  const holdingsGain = holdingsCurrentTotal - holdingsPurchaseTotal;
+
+  // Time- and money-weighted returns of the depot and its positions
+  const [returnsRange, setReturnsRange] = useState<HistoryRange>('MAX');
+  const { baseCurrency } = useFxRates();
+  const tickerCurrencies: Record<string, string> = useMemo(
+    () =>
+      Object.fromEntries(
+        (transactions ?? []).map((transaction) => [
+          transaction.ticker,
+          stockPrices[transaction.ticker]?.currency ?? transaction.currency,
+        ])
+      ),
+    [transactions, stockPrices]
+  );
+  const { returns, isLoadingReturns } = useReturns(transactions, tickerCurrencies, baseCurrency, returnsRange);
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
@@ -238,25 +284,33 @@ export default function BankDetailPage() {
       return;
     }
 
+    const quantity = parseFloat(formData.quantity);
+    if (isNaN(quantity) || quantity <= 0) {
+      alert('Anzahl muss eine positive Zahl sein');
+      return;
+    }
+
     try {
-      await db.positions.add({
+      await addPositions([{
         bankId,
         isin: formData.isin.trim().toUpperCase(),
         ticker: formData.ticker.trim().toUpperCase(),
         assetType: formData.assetType,
+        fundType: isInvestmentFund(formData.assetType) ? formData.fundType : undefined,
         purchaseDate: new Date(formData.purchaseDate),
-        quantity: parseFloat(formData.quantity),
+        quantity,
         purchasePrice: parseFloat(formData.purchasePrice),
         currency: formData.currency,
         notes: formData.notes.trim() || undefined,
         createdAt: new Date(),
-      });
+      }]);
 
       // Reset form
       setFormData({
         isin: '',
         ticker: '',
         assetType: 'stock',
+        fundType: 'equity',
         purchaseDate: '',
         quantity: '',
         purchasePrice: '',
@@ -275,7 +329,7 @@ export default function BankDetailPage() {
     if (!confirm('Position wirklich löschen?')) return;
 
     try {
-      await db.positions.delete(id);
+      await deletePosition(id);
     } catch (error) {
       console.error('Failed to delete position:', error);
       alert('Fehler beim Löschen der Position');
@@ -292,6 +346,7 @@ export default function BankDetailPage() {
       isin: position.isin,
       ticker: position.ticker,
       assetType: position.assetType,
+      fundType: position.fundType || 'equity',
       purchaseDate: purchaseDateStr,
       quantity: position.quantity.toString(),
       purchasePrice: position.purchasePrice.toString(),
@@ -316,13 +371,20 @@ export default function BankDetailPage() {
       return;
     }
 
+    const quantity = parseFloat(editFormData.quantity);
+    if (isNaN(quantity) || quantity <= 0) {
+      alert('Anzahl muss eine positive Zahl sein');
+      return;
+    }
+
     try {
-      await db.positions.update(editingPositionId, {
+      await updatePosition(editingPositionId, {
         isin: editFormData.isin.trim().toUpperCase(),
         ticker: editFormData.ticker.trim().toUpperCase(),
         assetType: editFormData.assetType,
+        fundType: isInvestmentFund(editFormData.assetType) ? editFormData.fundType : undefined,
         purchaseDate: new Date(editFormData.purchaseDate),
-        quantity: parseFloat(editFormData.quantity),
+        quantity,
         purchasePrice: parseFloat(editFormData.purchasePrice),
         currency: editFormData.currency,
         notes: editFormData.notes.trim() || undefined,
@@ -334,6 +396,7 @@ export default function BankDetailPage() {
         isin: '',
         ticker: '',
         assetType: 'stock',
+        fundType: 'equity',
         purchaseDate: '',
         quantity: '',
         purchasePrice: '',
@@ -352,6 +415,7 @@ export default function BankDetailPage() {
       isin: '',
       ticker: '',
       assetType: 'stock',
+      fundType: 'equity',
       purchaseDate: '',
       quantity: '',
       purchasePrice: '',
@@ -362,10 +426,12 @@ export default function BankDetailPage() {
   };
 
   const formatCurrency = (amount: number, currency: string) => {
+    // Pence (GBX) are shown as pounds
+    const normalized = normalizeCurrency(currency);
     return new Intl.NumberFormat('de-DE', {
       style: 'currency',
-      currency,
-    }).format(amount);
+      currency: normalized.currency,
+    }).format(amount * normalized.factor);
   };
 
   const formatDate = (date: Date) => {
@@ -388,10 +454,9 @@ export default function BankDetailPage() {
 
     try {
       const content = await readFile(file);
-      const result = parsePositionCSV(content, bankId);
 
-      // Store result in sessionStorage
-      sessionStorage.setItem('positions_import_preview', JSON.stringify(result));
+      // Store raw file in sessionStorage, the preview parses it with the chosen import profile
+      sessionStorage.setItem('positions_import_csv', content);
 
       // Navigate to preview page
       router.push(`/depots/${bankId}/import-preview`);
@@ -411,12 +476,12 @@ export default function BankDetailPage() {
 
   // Stock Price Handlers
   const handleFetchPrices = async () => {
-    if (!positions || positions.length === 0) {
+    if (!transactions || transactions.length === 0) {
       alert('Keine Positionen zum Aktualisieren vorhanden');
       return;
     }
 
-    const tickers = [...new Set(positions.map((p) => p.ticker))];
+    const tickers = [...new Set(transactions.map((t) => t.ticker))];
 
     try {
       await fetchStockData(tickers);
@@ -472,6 +537,24 @@ export default function BankDetailPage() {
             </div>
           </div>
 
+          {/* Archived Bank */}
+          {bank.archivedAt && (
+            <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg flex flex-wrap justify-between items-center gap-3">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                Diese Bank liegt im Papierkorb und wird im Dashboard und in der Steuerübersicht nicht berücksichtigt.
+              </p>
+              <button
+                onClick={() => restoreBank(bankId)}
+                className="px-4 py-2 text-sm bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors"
+              >
+                ♻️ Wiederherstellen
+              </button>
+            </div>
+          )}
+
+          {/* Undo Import */}
+          <ImportUndoBanner bankId={bankId} />
+
           {/* Action Buttons */}
           {!isAddingPosition && (
             <div className="mb-6 flex flex-wrap gap-3">
@@ -484,7 +567,7 @@ export default function BankDetailPage() {
               </button>
               <button
                 onClick={handleFetchPrices}
-                disabled={isLoadingData || !positions || positions.length === 0}
+                disabled={isLoadingData || !transactions || transactions.length === 0}
                 className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors text-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <span>{isLoadingData ? '⏳' : '📈'}</span>
@@ -584,14 +667,24 @@ export default function BankDetailPage() {
                   <DropdownDepotViewer
                     label="Asset-Typ"
                     value={formData.assetType}
-                    onChange={(value) => setFormData(prev => ({ ...prev, assetType: value as 'stock' | 'etf' | 'bond' }))}
-                    options={[
-                      { value: 'stock', label: 'Aktie' },
-                      { value: 'etf', label: 'ETF' },
-                      { value: 'bond', label: 'Anleihe' },
-                    ]}
+                    onChange={(value) => setFormData(prev => ({ ...prev, assetType: value as AssetType }))}
+                    options={ASSET_TYPES.map((type) => ({ value: type, label: ASSET_TYPE_LABELS[type] }))}
                     required
                   />
+                  {isInvestmentFund(formData.assetType) && (
+                    <DropdownDepotViewer
+                      label="Fondsart (Teilfreistellung)"
+                      value={formData.fundType}
+                      onChange={(value) => setFormData(prev => ({ ...prev, fundType: value as FundType }))}
+                      options={[
+                        { value: 'equity', label: FUND_TYPE_LABELS.equity },
+                        { value: 'mixed', label: FUND_TYPE_LABELS.mixed },
+                        { value: 'real-estate', label: FUND_TYPE_LABELS['real-estate'] },
+                        { value: 'real-estate-foreign', label: FUND_TYPE_LABELS['real-estate-foreign'] },
+                        { value: 'other', label: FUND_TYPE_LABELS.other },
+                      ]}
+                    />
+                  )}
                   <div>
                     <label htmlFor="purchaseDate" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
                       Kaufdatum *
@@ -656,11 +749,8 @@ export default function BankDetailPage() {
                   <DropdownDepotViewer
                     label="Währung"
                     value={formData.currency}
-                    onChange={(value) => setFormData(prev => ({ ...prev, currency: value as 'EUR' | 'USD' }))}
-                    options={[
-                      { value: 'EUR', label: 'EUR' },
-                      { value: 'USD', label: 'USD' },
-                    ]}
+                    onChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                    options={getCurrencyOptions(formData.currency)}
                     required
                   />
                   <div className="sm:col-span-2">
@@ -693,6 +783,7 @@ export default function BankDetailPage() {
                         isin: '',
                         ticker: '',
                         assetType: 'stock',
+                        fundType: 'equity',
                         purchaseDate: '',
                         quantity: '',
                         purchasePrice: '',
@@ -711,7 +802,7 @@ export default function BankDetailPage() {
           )}
 
           {/* Portfolio Summary */}
-          {positions && positions.length > 0 && Object.keys(stockPrices).length > 0 && (
+          {holdings.length > 0 && Object.keys(stockPrices).length > 0 && (
             <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
               <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
                 Portfolio-Übersicht
@@ -720,57 +811,102 @@ export default function BankDetailPage() {
                 <div>
                   <p className="text-sm text-zinc-500 dark:text-zinc-500">Einkaufswert</p>
                   <p className="text-xl font-bold text-zinc-900 dark:text-zinc-50">
-                    {formatCurrency(
-                      positions.reduce((sum, p) => sum + p.quantity * p.purchasePrice, 0),
-                      'EUR'
-                    )}
+                    {formatCurrency(holdingsPurchaseTotal, 'EUR')}
                   </p>
                 </div>
                 <div>
                   <p className="text-sm text-zinc-500 dark:text-zinc-500">Aktueller Wert</p>
                   <p className="text-xl font-bold text-zinc-900 dark:text-zinc-50">
-                    {formatCurrency(
-                      positions.reduce((sum, p) => {
-                        const price = stockPrices[p.ticker];
-                        return sum + (price ? p.quantity * price.currentPrice : p.quantity * p.purchasePrice);
-                      }, 0),
-                      'EUR'
-                    )}
+                    {formatCurrency(holdingsCurrentTotal, 'EUR')}
                   </p>
                 </div>
                 <div>
                   <p className="text-sm text-zinc-500 dark:text-zinc-500">Gewinn/Verlust</p>
-                  <p className={`text-xl font-bold ${positions.reduce((sum, p) => {
-                    const price = stockPrices[p.ticker];
-                    const current = price ? p.quantity * price.currentPrice : p.quantity * p.purchasePrice;
-                    const purchase = p.quantity * p.purchasePrice;
-                    return sum + (current - purchase);
-                  }, 0) >= 0
+                  <p className={`text-xl font-bold ${holdingsGain >= 0
                       ? 'text-green-600 dark:text-green-400'
                       : 'text-red-600 dark:text-red-400'
                     }`}>
-                    {formatCurrency(
-                      positions.reduce((sum, p) => {
-                        const price = stockPrices[p.ticker];
-                        const current = price ? p.quantity * price.currentPrice : p.quantity * p.purchasePrice;
-                        const purchase = p.quantity * p.purchasePrice;
-                        return sum + (current - purchase);
-                      }, 0),
-                      'EUR'
-                    )}
+                    {formatCurrency(holdingsGain, 'EUR')}
                     {' '}
-                    ({(positions.reduce((sum, p) => {
-                      const price = stockPrices[p.ticker];
-                      const current = price ? p.quantity * price.currentPrice : p.quantity * p.purchasePrice;
-                      const purchase = p.quantity * p.purchasePrice;
-                      return sum + (current - purchase);
-                    }, 0) / positions.reduce((sum, p) => sum + p.quantity * p.purchasePrice, 0) * 100).toFixed(2)}%)
+                    ({(holdingsPurchaseTotal > 0 ? (holdingsGain / holdingsPurchaseTotal) * 100 : 0).toFixed(2)}%)
                   </p>
                 </div>
               </div>
             </div>
           )}
 
+          {/* Holdings (derived from the ledger) */}
+          {holdings.length > 0 && (
+            <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+                Bestand ({holdings.length})
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-zinc-50 dark:bg-zinc-900">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-zinc-500 dark:text-zinc-400">Ticker</th>
+                      <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Anzahl</th>
+                      <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Ø Kaufkurs</th>
+                      <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Einstand</th>
+                      <th className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">Aktueller Wert</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                    {holdings.map((holding) => {
+                      const stockPrice = stockPrices[holding.ticker];
+                      return (
+                        <tr key={holding.ticker}>
+                          <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50">
+                            <p className="font-medium">{holding.ticker}</p>
+                            {stockPrice?.name && (
+                              <p className="text-xs text-zinc-500 dark:text-zinc-400">{stockPrice.name}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                            {holding.quantity}
+                          </td>
+                          <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                            {formatCurrency(holding.averagePrice, holding.currency)}
+                          </td>
+                          <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                            {formatCurrency(holding.costBasis, holding.currency)}
+                          </td>
+                          <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                            {stockPrice
+                              ? formatCurrency(holding.quantity * stockPrice.currentPrice, stockPrice.currency)
+                              : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Returns */}
+          {transactions && transactions.length > 0 && (
+            <ReturnsOverview
+              range={returnsRange}
+              onRangeChange={setReturnsRange}
+              isLoading={isLoadingReturns}
+              rows={[
+                { key: 'total', label: bank.name, sublabel: `in ${baseCurrency}`, returns: returns?.total, isTotal: true },
+                ...Object.keys(tickerCurrencies).sort().map((ticker) => ({
+                  key: ticker,
+                  label: ticker,
+                  sublabel: stockPrices[ticker]?.name,
+                  returns: returns?.byTicker[ticker],
+                })),
+              ]}
+            />
+          )}
+
+          {/* Transaction Ledger */}
+          {transactions && <TransactionLedger bankId={bankId} transactions={transactions} />}
+
           {/* Positions List */}
           <div className="space-y-4">
             <h2 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
@@ -859,14 +995,24 @@ export default function BankDetailPage() {
                           <DropdownDepotViewer
                             label="Asset-Typ"
                             value={editFormData.assetType}
-                            onChange={(value) => setEditFormData(prev => ({ ...prev, assetType: value as 'stock' | 'etf' | 'bond' }))}
-                            options={[
-                              { value: 'stock', label: 'Aktie' },
-                              { value: 'etf', label: 'ETF' },
-                              { value: 'bond', label: 'Anleihe' },
-                            ]}
+                            onChange={(value) => setEditFormData(prev => ({ ...prev, assetType: value as AssetType }))}
+                            options={ASSET_TYPES.map((type) => ({ value: type, label: ASSET_TYPE_LABELS[type] }))}
                             required
                           />
+                          {isInvestmentFund(editFormData.assetType) && (
+                            <DropdownDepotViewer
+                              label="Fondsart (Teilfreistellung)"
+                              value={editFormData.fundType}
+                              onChange={(value) => setEditFormData(prev => ({ ...prev, fundType: value as FundType }))}
+                              options={[
+                                { value: 'equity', label: FUND_TYPE_LABELS.equity },
+                                { value: 'mixed', label: FUND_TYPE_LABELS.mixed },
+                                { value: 'real-estate', label: FUND_TYPE_LABELS['real-estate'] },
+                                { value: 'real-estate-foreign', label: FUND_TYPE_LABELS['real-estate-foreign'] },
+                                { value: 'other', label: FUND_TYPE_LABELS.other },
+                              ]}
+                            />
+                          )}
                           <div>
                             <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
                               Kaufdatum *
@@ -926,11 +1072,8 @@ export default function BankDetailPage() {
                           <DropdownDepotViewer
                             label="Währung"
                             value={editFormData.currency}
-                            onChange={(value) => setEditFormData(prev => ({ ...prev, currency: value as 'EUR' | 'USD' }))}
-                            options={[
-                              { value: 'EUR', label: 'EUR' },
-                              { value: 'USD', label: 'USD' },
-                            ]}
+                            onChange={(value) => setEditFormData(prev => ({ ...prev, currency: value }))}
+                            options={getCurrencyOptions(editFormData.currency)}
                             required
                           />
                           <div className="sm:col-span-2">
@@ -971,8 +1114,13 @@ export default function BankDetailPage() {
                               {position.ticker}
                             </h3>
                             <span className="px-2 py-1 text-xs font-medium bg-zinc-100 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded">
-                              {position.assetType === 'stock' ? 'Aktie' : position.assetType === 'etf' ? 'ETF' : 'Anleihe'}
+                              {ASSET_TYPE_LABELS[position.assetType] ?? position.assetType}
                             </span>
+                            {isInvestmentFund(position.assetType) && position.fundType && (
+                              <span className="px-2 py-1 text-xs font-medium bg-zinc-100 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded">
+                                {FUND_TYPE_LABELS[position.fundType]}
+                              </span>
+                            )}
                             {stockPrice && gainPercent !== null && (
                               <span className={`px-2 py-1 text-xs font-medium rounded ${gainPercent >= 0
                                   ? 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400'
@@ -2,66 +2,60 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { db, Bank } from '@/lib/db';
-
-interface BankImportRow extends Omit<Bank, 'id'> {
-  _rowNumber: number;
-  _error?: string;
-}
-
-interface ImportPreviewData {
-  success: Omit<Bank, 'id'>[];
-  errors: { row: number; error: string }[];
-  allRows: BankImportRow[];
-}
+import { importBanks } from '@/lib/imports';
+import { BankImportRow, parseBankCSV } from '@/lib/csv-banks';
+import { CSVRowEdits } from '@/lib/csv-utils';
 
 export default function BankImportPreviewPage() {
   const router = useRouter();
-  const [previewData, setPreviewData] = useState<ImportPreviewData | null>(null);
+  const [csvContent, setCsvContent] = useState<string | null>(null);
+  const [rowEdits, setRowEdits] = useState<CSVRowEdits>({});
+  const [excludedRows, setExcludedRows] = useState<number[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
 
   useEffect(() => {
-    // Load preview data from sessionStorage
-    const dataStr = sessionStorage.getItem('banks_import_preview');
-    if (dataStr) {
-      try {
-        const data = JSON.parse(dataStr);
-        setPreviewData(data);
-      } catch (error) {
-        console.error('Failed to parse preview data:', error);
-        router.push('/depots');
-      }
+    // Load raw CSV from sessionStorage
+    const content = sessionStorage.getItem('banks_import_csv');
+    if (content) {
+      setCsvContent(content);
     } else {
       // No data, redirect back
       router.push('/depots');
     }
   }, [router]);
 
+  // Parsed again on every edit, so corrected rows are validated right away
+  const previewData = csvContent !== null ? parseBankCSV(csvContent, rowEdits, excludedRows) : null;
+
+  const handleRowEdit = (rowNumber: number, field: string, value: string) => {
+    setRowEdits((prev) => ({ ...prev, [rowNumber]: { ...prev[rowNumber], [field]: value } }));
+  };
+
+  const toggleRowExcluded = (rowNumber: number) => {
+    setExcludedRows((prev) =>
+      prev.includes(rowNumber) ? prev.filter((n) => n !== rowNumber) : [...prev, rowNumber]
+    );
+  };
+
+  // Rows with errors are left out, the user has to confirm that
+  const confirmRejectedRows = () =>
+    !previewData?.errors.length ||
+    confirm(`${previewData.errors.length} fehlerhafte Zeile(n) werden nicht importiert. Fortfahren?`);
+
   const handleCancel = () => {
-    sessionStorage.removeItem('banks_import_preview');
+    sessionStorage.removeItem('banks_import_csv');
     router.push('/depots');
   };
 
   const handleOverwrite = async () => {
-    if (!previewData || previewData.errors.length > 0) return;
+    if (!previewData || !confirmRejectedRows()) return;
 
     setIsProcessing(true);
     try {
-      // Delete all existing banks (and cascade delete positions)
-      const allBanks = await db.banks.toArray();
-      for (const bank of allBanks) {
-        if (bank.id) {
-          await db.positions.where('bankId').equals(bank.id).delete();
-          await db.banks.delete(bank.id);
-        }
-      }
+      // Replace all banks (with their positions and transactions) in one transaction
+      await importBanks(previewData.success, 'overwrite');
 
-      // Add all new banks
-      for (const bank of previewData.success) {
-        await db.banks.add(bank);
-      }
-
-      sessionStorage.removeItem('banks_import_preview');
+      sessionStorage.removeItem('banks_import_csv');
       alert(`${previewData.success.length} Banken erfolgreich importiert (alle Depots überschrieben)`);
       router.push('/depots');
     } catch (error) {
@@ -72,16 +66,14 @@ export default function BankImportPreviewPage() {
   };
 
   const handleAppend = async () => {
-    if (!previewData || previewData.errors.length > 0) return;
+    if (!previewData || !confirmRejectedRows()) return;
 
     setIsProcessing(true);
     try {
       // Add all new banks
-      for (const bank of previewData.success) {
-        await db.banks.add(bank);
-      }
+      await importBanks(previewData.success, 'append');
 
-      sessionStorage.removeItem('banks_import_preview');
+      sessionStorage.removeItem('banks_import_csv');
       alert(`${previewData.success.length} Banken erfolgreich hinzugefügt`);
       router.push('/depots');
     } catch (error) {
@@ -104,7 +96,19 @@ export default function BankImportPreviewPage() {
   }
 
   const hasErrors = previewData.errors.length > 0;
-  const canImport = !hasErrors;
+  const canImport = previewData.success.length > 0;
+  const excludedCount = previewData.allRows.filter((row) => row._excluded).length;
+
+  const renderEditableCell = (row: BankImportRow, field: string) => (
+    <td className="px-2 py-2">
+      <input
+        type="text"
+        value={row._raw[field] ?? ''}
+        onChange={(e) => handleRowEdit(row._rowNumber, field, e.target.value)}
+        className="w-full min-w-[6rem] px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+      />
+    </td>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-zinc-50 to-zinc-100 dark:from-zinc-900 dark:to-black">
@@ -158,9 +162,11 @@ export default function BankImportPreviewPage() {
               <table className="w-full text-sm">
                 <thead className="bg-zinc-100 dark:bg-zinc-700">
                   <tr>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Import</th>
                     <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Zeile</th>
                     <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Name</th>
                     <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Notizen</th>
+                    <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Freistellungsauftrag</th>
                     <th className="px-4 py-3 text-left text-zinc-700 dark:text-zinc-300">Status</th>
                   </tr>
                 </thead>
@@ -172,17 +178,23 @@ export default function BankImportPreviewPage() {
                         key={idx}
                         className={`border-t border-zinc-200 dark:border-zinc-700 ${
                           hasError ? 'bg-red-50 dark:bg-red-900/10' : ''
-                        }`}
+                        } ${row._excluded ? 'opacity-50' : ''}`}
                       >
-                        <td className="px-4 py-3 text-zinc-900 dark:text-zinc-50">
-                          {row._rowNumber}
-                        </td>
-                        <td className="px-4 py-3 text-zinc-900 dark:text-zinc-50">
-                          {row.name || '-'}
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={!hasError && !row._excluded}
+                            disabled={hasError}
+                            onChange={() => toggleRowExcluded(row._rowNumber)}
+                            title={hasError ? 'Fehlerhafte Zeilen werden nicht importiert' : 'Zeile importieren'}
+                          />
                         </td>
                         <td className="px-4 py-3 text-zinc-900 dark:text-zinc-50">
-                          {row.notes || '-'}
+                          {row._rowNumber}
                         </td>
+                        {renderEditableCell(row, 'name')}
+                        {renderEditableCell(row, 'notes')}
+                        {renderEditableCell(row, 'freistellungsauftrag')}
                         <td className="px-4 py-3">
                           {hasError ? (
                             <span className="text-red-600 dark:text-red-400 text-xs">
@@ -230,9 +242,14 @@ export default function BankImportPreviewPage() {
             </button>
           </div>
 
-          {!canImport && (
+          {!canImport ? (
             <p className="mt-4 text-sm text-red-600 dark:text-red-400">
-              Import ist nur möglich, wenn keine Pflichtfeld-Fehler vorhanden sind. Bitte korrigiere die CSV-Datei und importiere erneut.
+              Keine gültigen Zeilen zum Importieren. Korrigiere die Werte direkt in der Tabelle.
+            </p>
+          ) : (hasErrors || excludedCount > 0) && (
+            <p className="mt-4 text-sm text-zinc-600 dark:text-zinc-400">
+              {previewData.errors.length} fehlerhafte und {excludedCount} ausgeschlossene Zeile(n) werden nicht
+              importiert. Fehler kannst du direkt in der Tabelle korrigieren.
             </p>
           )}
         </div>
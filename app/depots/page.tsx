@@ -8,24 +8,70 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import {
   downloadExampleBankCSV,
   exportBanksToCSV,
-  parseBankCSV,
 } from '@/lib/csv-banks';
 import { readFile } from '@/lib/csv-utils';
+import { exportAllPositionsToCSV } from '@/lib/csv-positions';
 import { useSharedStockData } from '@/lib/hooks/useSharedStockData';
+import { deriveHoldings } from '@/lib/lots';
+import { normalizeCurrency } from '@/lib/fx';
+import {
+  BACKUP_TABLE_LABELS,
+  DatabaseBackup,
+  decryptBackup,
+  downloadBackup,
+  isEncryptedBackup,
+  parseBackup,
+  restoreBackup,
+  RestoreMode,
+} from '@/lib/backup';
+import { disableEncryption, enableEncryption, lock, MIN_PASSPHRASE_LENGTH } from '@/lib/encryption';
+import { useEncryptionLock } from '@/lib/hooks/useEncryptionLock';
+import { ImportUndoBanner } from '@/app/components/ImportUndoBanner';
+import {
+  archiveBank,
+  deleteBank,
+  findOrphans,
+  getActiveLedger,
+  getBankDependents,
+  isArchived,
+  repairOrphans,
+  restoreBank,
+} from '@/lib/banks';
 
 export default function DepotsPage() {
   const router = useRouter();
   const [isAddingBank, setIsAddingBank] = useState(false);
   const [bankName, setBankName] = useState('');
   const [bankNotes, setBankNotes] = useState('');
+  const [bankAllowance, setBankAllowance] = useState('');
   const [editingBankId, setEditingBankId] = useState<number | null>(null);
   const [editBankName, setEditBankName] = useState('');
   const [editBankNotes, setEditBankNotes] = useState('');
+  const [editBankAllowance, setEditBankAllowance] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<DatabaseBackup | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Live query - updates automatically when data changes
-  const banks = useLiveQuery(() => db.banks.toArray());
-  const positions = useLiveQuery(() => db.positions.toArray());
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const positionsInputRef = useRef<HTMLInputElement>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [isChangingEncryption, setIsChangingEncryption] = useState(false);
+  const lockState = useEncryptionLock();
+  const [showTrash, setShowTrash] = useState(false);
+
+  // Live query - updates automatically when data changes (archived banks are only shown in the trash)
+  const ledger = useLiveQuery(() => getActiveLedger());
+  const banks = ledger?.banks;
+  const positions = ledger?.positions;
+  const transactions = ledger?.transactions;
+  const archivedBanks = useLiveQuery(async () => {
+    const archived = (await db.banks.toArray()).filter(isArchived);
+    return Promise.all(archived.map(async (bank) => ({ bank, ...(await getBankDependents(bank.id!)) })));
+  });
+  const orphans = useLiveQuery(() => findOrphans());
+
+  // Current holdings of all banks, derived from the ledger
+  const holdings = transactions ? deriveHoldings(transactions) : [];
 
   // Shared stock data
   const { stockPrices, historicalData, isLoadingData, fetchStockData, hasData } = useSharedStockData();
@@ -44,12 +90,14 @@ export default function DepotsPage() {
       await db.banks.add({
         name: bankName.trim(),
         notes: bankNotes.trim() || undefined,
+        freistellungsauftrag: parseFloat(bankAllowance) || undefined,
         createdAt: new Date(),
       });
 
       // Reset form
       setBankName('');
       setBankNotes('');
+      setBankAllowance('');
       setIsAddingBank(false);
     } catch (error) {
       console.error('Failed to add bank:', error);
@@ -57,21 +105,81 @@ export default function DepotsPage() {
     }
   };
 
-  const handleDeleteBank = async (id: number) => {
-    if (!confirm('Bank wirklich löschen?')) return;
+  const handleArchiveBank = async (bank: Bank) => {
+    if (
+      !confirm(
+        `Bank "${bank.name}" in den Papierkorb verschieben?\n\n` +
+          'Die Bank wird mit ihren Positionen und Transaktionen ausgeblendet und kann im Papierkorb wiederhergestellt werden.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await archiveBank(bank.id!);
+    } catch (error) {
+      console.error('Failed to archive bank:', error);
+      alert('Fehler beim Löschen der Bank');
+    }
+  };
+
+  const handleRestoreBank = async (id: number) => {
+    try {
+      await restoreBank(id);
+    } catch (error) {
+      console.error('Failed to restore bank:', error);
+      alert('Fehler beim Wiederherstellen der Bank');
+    }
+  };
 
+  const handleDeleteBankPermanently = async (bank: Bank) => {
     try {
-      await db.banks.delete(id);
+      const dependents = await getBankDependents(bank.id!);
+      if (
+        !confirm(
+          `Bank "${bank.name}" endgültig löschen?\n\n` +
+            'Dabei werden ebenfalls gelöscht:\n' +
+            `• ${dependents.positions} Position${dependents.positions !== 1 ? 'en' : ''}\n` +
+            `• ${dependents.transactions} Transaktion${dependents.transactions !== 1 ? 'en' : ''}\n\n` +
+            'Dies kann nicht rückgängig gemacht werden.'
+        )
+      ) {
+        return;
+      }
+      await deleteBank(bank.id!);
     } catch (error) {
       console.error('Failed to delete bank:', error);
       alert('Fehler beim Löschen der Bank');
     }
   };
 
+  // Maintenance Handlers
+  const handleRepairOrphans = async () => {
+    if (!orphans) return;
+    if (
+      !confirm(
+        'Folgende verwaiste Einträge ohne zugehörige Bank oder Position werden gelöscht:\n' +
+          `• ${orphans.positions.length} Positionen\n` +
+          `• ${orphans.transactions.length} Transaktionen\n\nFortfahren?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const removed = await repairOrphans();
+      alert(`${removed.positions} Positionen und ${removed.transactions} Transaktionen bereinigt`);
+    } catch (error) {
+      console.error('Repair failed:', error);
+      alert('Fehler beim Bereinigen');
+    }
+  };
+
   const handleEditBank = (bank: Bank) => {
     setEditingBankId(bank.id!);
     setEditBankName(bank.name);
     setEditBankNotes(bank.notes || '');
+    setEditBankAllowance(bank.freistellungsauftrag?.toString() || '');
   };
 
   const handleUpdateBank = async (e: React.FormEvent) => {
@@ -83,12 +191,14 @@ export default function DepotsPage() {
       await db.banks.update(editingBankId, {
         name: editBankName.trim(),
         notes: editBankNotes.trim() || undefined,
+        freistellungsauftrag: parseFloat(editBankAllowance) || undefined,
       });
 
       // Reset edit state
       setEditingBankId(null);
       setEditBankName('');
       setEditBankNotes('');
+      setEditBankAllowance('');
     } catch (error) {
       console.error('Failed to update bank:', error);
       alert('Fehler beim Aktualisieren der Bank');
@@ -99,6 +209,7 @@ export default function DepotsPage() {
     setEditingBankId(null);
     setEditBankName('');
     setEditBankNotes('');
+    setEditBankAllowance('');
   };
 
   // CSV Handlers
@@ -116,10 +227,9 @@ export default function DepotsPage() {
 
     try {
       const content = await readFile(file);
-      const result = parseBankCSV(content);
 
-      // Store result in sessionStorage
-      sessionStorage.setItem('banks_import_preview', JSON.stringify(result));
+      // Store raw CSV in sessionStorage, the preview parses it
+      sessionStorage.setItem('banks_import_csv', content);
 
       // Navigate to preview page
       router.push('/depots/import-preview');
@@ -138,14 +248,153 @@ export default function DepotsPage() {
     }
   };
 
+  const handleExportAllPositions = () => {
+    exportAllPositionsToCSV(banks ?? [], positions ?? []);
+  };
+
+  const handleImportAllPositions = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const content = await readFile(file);
+
+      // Store raw file in sessionStorage, the preview assigns the rows to banks by the bank column
+      sessionStorage.setItem('positions_import_csv', content);
+      router.push('/depots/positions-import-preview');
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert(
+        `Fehler beim Lesen der Datei: ${
+          error instanceof Error ? error.message : 'Unbekannter Fehler'
+        }`
+      );
+
+      // Reset file input
+      if (positionsInputRef.current) {
+        positionsInputRef.current.value = '';
+      }
+    }
+  };
+
+  // Backup Handlers
+  const handleCreateBackup = async () => {
+    try {
+      await downloadBackup();
+    } catch (error) {
+      console.error('Backup failed:', error);
+      alert('Fehler beim Erstellen des Backups');
+    }
+  };
+
+  const handleSelectBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      let content = await readFile(file);
+      if (isEncryptedBackup(content)) {
+        const passphrase = prompt('Das Backup ist verschlüsselt. Bitte gib die Passphrase ein:');
+        if (passphrase === null) return;
+        content = await decryptBackup(content, passphrase);
+      }
+      setPendingBackup(parseBackup(content));
+    } catch (error) {
+      console.error('Reading backup failed:', error);
+      alert(
+        `Fehler beim Lesen des Backups: ${
+          error instanceof Error ? error.message : 'Unbekannter Fehler'
+        }`
+      );
+    } finally {
+      // Reset file input
+      if (backupInputRef.current) {
+        backupInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleRestoreBackup = async (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    if (
+      mode === 'replace' &&
+      !confirm('Alle vorhandenen Daten werden gelöscht und durch das Backup ersetzt. Fortfahren?')
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      await restoreBackup(pendingBackup, mode);
+      setPendingBackup(null);
+      alert(mode === 'replace' ? 'Backup wiederhergestellt' : 'Backup mit den vorhandenen Daten zusammengeführt');
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert(
+        `Fehler beim Wiederherstellen: ${
+          error instanceof Error ? error.message : 'Unbekannter Fehler'
+        }`
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // Encryption Handlers
+  const handleEnableEncryption = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      alert(`Die Passphrase muss mindestens ${MIN_PASSPHRASE_LENGTH} Zeichen lang sein`);
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      alert('Die Passphrasen stimmen nicht überein');
+      return;
+    }
+    if (!confirm('Ohne die Passphrase können die Daten nicht wiederhergestellt werden. Verschlüsselung aktivieren?')) {
+      return;
+    }
+
+    setIsChangingEncryption(true);
+    try {
+      await enableEncryption(passphrase);
+      setPassphrase('');
+      setPassphraseConfirm('');
+      alert('Verschlüsselung aktiviert');
+    } catch (error) {
+      console.error('Failed to enable encryption:', error);
+      alert('Fehler beim Aktivieren der Verschlüsselung');
+    } finally {
+      setIsChangingEncryption(false);
+    }
+  };
+
+  const handleDisableEncryption = async () => {
+    if (!confirm('Alle Daten werden wieder unverschlüsselt gespeichert. Verschlüsselung deaktivieren?')) {
+      return;
+    }
+
+    setIsChangingEncryption(true);
+    try {
+      await disableEncryption();
+      alert('Verschlüsselung deaktiviert');
+    } catch (error) {
+      console.error('Failed to disable encryption:', error);
+      alert('Fehler beim Deaktivieren der Verschlüsselung');
+    } finally {
+      setIsChangingEncryption(false);
+    }
+  };
+
   // Stock Price Handlers
   const handleFetchAllPrices = async () => {
-    if (!positions || positions.length === 0) {
+    if (holdings.length === 0) {
       alert('Keine Positionen zum Aktualisieren vorhanden');
       return;
     }
 
-    const tickers = [...new Set(positions.map((p) => p.ticker))];
+    const tickers = [...new Set(holdings.map((h) => h.ticker))];
 
     try {
       await fetchStockData(tickers);
@@ -156,10 +405,12 @@ export default function DepotsPage() {
   };
 
   const formatCurrency = (amount: number, currency: string = 'EUR') => {
+    // Pence (GBX) are shown as pounds
+    const normalized = normalizeCurrency(currency);
     return new Intl.NumberFormat('de-DE', {
       style: 'currency',
-      currency,
-    }).format(amount);
+      currency: normalized.currency,
+    }).format(amount * normalized.factor);
   };
 
   return (
@@ -184,6 +435,9 @@ export default function DepotsPage() {
             </Link>
           </div>
 
+          {/* Undo Import */}
+          <ImportUndoBanner />
+
           {/* Action Buttons */}
           {!isAddingBank && (
             <div className="mb-6 flex flex-wrap gap-3">
@@ -196,7 +450,7 @@ export default function DepotsPage() {
               </button>
               <button
                 onClick={handleFetchAllPrices}
-                disabled={isLoadingData || !positions || positions.length === 0}
+                disabled={isLoadingData || holdings.length === 0}
                 className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors text-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <span>{isLoadingData ? '⏳' : '📈'}</span>
@@ -227,6 +481,132 @@ export default function DepotsPage() {
                   className="hidden"
                 />
               </label>
+              <button
+                onClick={handleExportAllPositions}
+                className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors text-sm inline-flex items-center gap-2"
+              >
+                <span>💾</span>
+                <span>Alle Positionen exportieren</span>
+              </button>
+              <label className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors cursor-pointer text-sm inline-flex items-center gap-2">
+                <span>📥</span>
+                <span>Positionen importieren (alle Banken)</span>
+                <input
+                  ref={positionsInputRef}
+                  type="file"
+                  accept=".csv"
+                  onChange={handleImportAllPositions}
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={handleCreateBackup}
+                className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors text-sm inline-flex items-center gap-2"
+              >
+                <span>🗄️</span>
+                <span>Backup erstellen</span>
+              </button>
+              <label className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors cursor-pointer text-sm inline-flex items-center gap-2">
+                <span>♻️</span>
+                <span>Backup wiederherstellen</span>
+                <input
+                  ref={backupInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleSelectBackup}
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors text-sm inline-flex items-center gap-2"
+              >
+                <span>🗑️</span>
+                <span>Papierkorb ({archivedBanks?.length ?? 0})</span>
+              </button>
+            </div>
+          )}
+
+          {/* Trash */}
+          {showTrash && (
+            <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+                Papierkorb
+              </h2>
+              {!archivedBanks || archivedBanks.length === 0 ? (
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">Der Papierkorb ist leer.</p>
+              ) : (
+                <div className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                  {archivedBanks.map(({ bank, positions: positionCount, transactions: transactionCount }) => (
+                    <div key={bank.id} className="py-3 flex flex-wrap justify-between items-center gap-3">
+                      <div>
+                        <p className="font-medium text-zinc-900 dark:text-zinc-50">{bank.name}</p>
+                        <p className="text-xs text-zinc-500 dark:text-zinc-500">
+                          Gelöscht: {new Date(bank.archivedAt!).toLocaleDateString('de-DE')} • {positionCount} Position
+                          {positionCount !== 1 ? 'en' : ''} • {transactionCount} Transaktion
+                          {transactionCount !== 1 ? 'en' : ''}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleRestoreBank(bank.id!)}
+                          className="px-4 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-lg transition-colors"
+                        >
+                          Wiederherstellen
+                        </button>
+                        <button
+                          onClick={() => handleDeleteBankPermanently(bank)}
+                          className="px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        >
+                          Endgültig löschen
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Restore Backup */}
+          {pendingBackup && (
+            <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+                Backup wiederherstellen
+              </h2>
+              <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+                Erstellt am {new Date(pendingBackup.exportedAt).toLocaleString('de-DE')}:{' '}
+                {Object.entries(pendingBackup.tables)
+                  .map(([name, rows]) => `${rows.length} ${BACKUP_TABLE_LABELS[name] ?? name}`)
+                  .join(', ')}
+              </p>
+              <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+                <strong>Ersetzen</strong> löscht alle vorhandenen Daten.{' '}
+                <strong>Zusammenführen</strong> fügt die Daten des Backups zu den vorhandenen hinzu.
+              </p>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => handleRestoreBackup('replace')}
+                  disabled={isRestoring}
+                  className="px-4 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  🔄 Ersetzen
+                </button>
+                <button
+                  onClick={() => handleRestoreBackup('merge')}
+                  disabled={isRestoring}
+                  className="px-4 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ➕ Zusammenführen
+                </button>
+                <button
+                  onClick={() => setPendingBackup(null)}
+                  disabled={isRestoring}
+                  className="px-4 py-2 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-50 border border-zinc-300 dark:border-zinc-700 rounded-lg font-medium hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Abbrechen
+                </button>
+              </div>
             </div>
           )}
 
@@ -266,6 +646,21 @@ export default function DepotsPage() {
                       className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
                     />
                   </div>
+                  <div>
+                    <label htmlFor="bankAllowance" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                      Freistellungsauftrag in € (optional)
+                    </label>
+                    <input
+                      type="number"
+                      id="bankAllowance"
+                      value={bankAllowance}
+                      onChange={(e) => setBankAllowance(e.target.value)}
+                      placeholder="z.B. 1000"
+                      step="0.01"
+                      min="0"
+                      className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+                    />
+                  </div>
                   <div className="flex gap-3">
                     <button
                       type="submit"
@@ -279,6 +674,7 @@ export default function DepotsPage() {
                         setIsAddingBank(false);
                         setBankName('');
                         setBankNotes('');
+                        setBankAllowance('');
                       }}
                       className="px-6 py-2 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-50 border border-zinc-300 dark:border-zinc-700 rounded-lg font-medium hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors"
                     >
@@ -304,18 +700,18 @@ export default function DepotsPage() {
                 const isEditing = editingBankId === bank.id;
 
                 // Calculate portfolio stats for this bank
-                const bankPositions = positions?.filter((p) => p.bankId === bank.id) || [];
-                const bankHasData = hasData && bankPositions.length > 0;
+                const bankHoldings = holdings.filter((h) => h.bankId === bank.id);
+                const bankHasData = hasData && bankHoldings.length > 0;
 
                 const bankPortfolioTotal = bankHasData
-                  ? bankPositions.reduce((sum, p) => {
-                      const stockPrice = stockPrices[p.ticker];
-                      const currentValue = stockPrice ? p.quantity * stockPrice.currentPrice : p.quantity * p.purchasePrice;
+                  ? bankHoldings.reduce((sum, h) => {
+                      const stockPrice = stockPrices[h.ticker];
+                      const currentValue = stockPrice ? h.quantity * stockPrice.currentPrice : h.costBasis;
                       return sum + currentValue;
                     }, 0)
                   : 0;
 
-                const bankPurchaseTotal = bankPositions.reduce((sum, p) => sum + p.quantity * p.purchasePrice, 0);
+                const bankPurchaseTotal = bankHoldings.reduce((sum, h) => sum + h.costBasis, 0);
                 const bankTotalGain = bankPortfolioTotal - bankPurchaseTotal;
                 const bankTotalGainPercent = bankPurchaseTotal > 0 ? (bankTotalGain / bankPurchaseTotal) * 100 : 0;
 
@@ -356,6 +752,20 @@ export default function DepotsPage() {
                               className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
                             />
                           </div>
+                          <div>
+                            <label htmlFor="editBankAllowance" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                              Freistellungsauftrag in € (optional)
+                            </label>
+                            <input
+                              type="number"
+                              id="editBankAllowance"
+                              value={editBankAllowance}
+                              onChange={(e) => setEditBankAllowance(e.target.value)}
+                              step="0.01"
+                              min="0"
+                              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+                            />
+                          </div>
                           <div className="flex gap-3">
                             <button
                               type="submit"
@@ -388,6 +798,7 @@ export default function DepotsPage() {
                             )}
                             <p className="text-xs text-zinc-500 dark:text-zinc-500">
                               Erstellt: {new Date(bank.createdAt).toLocaleDateString('de-DE')} • {positionCount} Position{positionCount !== 1 ? 'en' : ''}
+                              {bank.freistellungsauftrag ? ` • FSA: ${formatCurrency(bank.freistellungsauftrag)}` : ''}
                             </p>
                           </div>
                           <div className="ml-4 flex gap-2">
@@ -398,7 +809,7 @@ export default function DepotsPage() {
                               Bearbeiten
                             </button>
                             <button
-                              onClick={() => bank.id && handleDeleteBank(bank.id)}
+                              onClick={() => handleArchiveBank(bank)}
                               className="px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
                             >
                               Löschen
@@ -466,6 +877,95 @@ export default function DepotsPage() {
               })
             )}
           </div>
+
+          {/* Encryption */}
+          <div className="mt-8 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+            <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+              Verschlüsselung
+            </h2>
+            {lockState === 'unlocked' ? (
+              <>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+                  Namen, Notizen, Stückzahlen und Preise werden verschlüsselt gespeichert. Nach
+                  Inaktivität werden die Depots automatisch gesperrt.
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={lock}
+                    disabled={isChangingEncryption}
+                    className="px-4 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    🔒 Jetzt sperren
+                  </button>
+                  <button
+                    onClick={handleDisableEncryption}
+                    disabled={isChangingEncryption}
+                    className="px-4 py-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isChangingEncryption ? 'Wird entschlüsselt...' : 'Verschlüsselung deaktivieren'}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <form onSubmit={handleEnableEncryption}>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+                  Schützt Namen, Notizen, Stückzahlen und Preise mit einer Passphrase, z.B. auf
+                  gemeinsam genutzten Rechnern. Backups werden dann ebenfalls verschlüsselt.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder={`Passphrase (mind. ${MIN_PASSPHRASE_LENGTH} Zeichen)`}
+                    autoComplete="new-password"
+                    className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+                  />
+                  <input
+                    type="password"
+                    value={passphraseConfirm}
+                    onChange={(e) => setPassphraseConfirm(e.target.value)}
+                    placeholder="Passphrase wiederholen"
+                    autoComplete="new-password"
+                    className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg focus:ring-2 focus:ring-zinc-500 dark:bg-zinc-900 dark:text-zinc-50"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isChangingEncryption || !passphrase}
+                  className="px-4 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isChangingEncryption ? 'Wird verschlüsselt...' : '🔐 Verschlüsselung aktivieren'}
+                </button>
+              </form>
+            )}
+          </div>
+
+          {/* Maintenance */}
+          <div className="mt-8 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+            <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+              Wartung
+            </h2>
+            {orphans && (orphans.positions.length > 0 || orphans.transactions.length > 0) ? (
+              <>
+                <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+                  {orphans.positions.length} Positionen und {orphans.transactions.length} Transaktionen
+                  gehören zu keiner vorhandenen Bank oder Position mehr, z.B. nach dem Löschen in einer
+                  älteren Version.
+                </p>
+                <button
+                  onClick={handleRepairOrphans}
+                  className="px-4 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors"
+                >
+                  🧹 Verwaiste Einträge bereinigen
+                </button>
+              </>
+            ) : (
+              <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                {orphans ? '✓ Keine verwaisten Einträge gefunden.' : 'Prüfe Datenbank...'}
+              </p>
+            )}
+          </div>
         </div>
       </main>
     </div>
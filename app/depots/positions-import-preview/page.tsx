@@ -0,0 +1,8 @@
+'use client';
+
+import { PositionImportPreview } from '@/app/components/PositionImportPreview';
+
+// Import of a position CSV with bank column into several banks
+export default function AllBanksPositionImportPreviewPage() {
+  return <PositionImportPreview />;
+}
@@ -0,0 +1,9 @@
+import { EncryptionGate } from '@/app/components/EncryptionGate';
+
+export default function TaxReportLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <EncryptionGate>{children}</EncryptionGate>;
+}
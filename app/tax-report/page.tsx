@@ -0,0 +1,417 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { DropdownDepotViewer } from '@/app/components/DropdownDepotViewer';
+import {
+  BASISZINS,
+  BankTaxReport,
+  ChurchTaxRate,
+  FUND_TYPE_LABELS,
+  FundYearPrices,
+  SPARER_PAUSCHBETRAG,
+  calculateTaxReports,
+  calculateVorabpauschale,
+  mergeMissingRates,
+  sumTaxReports,
+} from '@/lib/tax';
+import { exportTaxReportToCSV } from '@/lib/csv-tax-report';
+import { isInvestmentFund } from '@/lib/instruments';
+import { getActiveLedger } from '@/lib/banks';
+import { matchLots } from '@/lib/lots';
+import { useFxRates } from '@/lib/hooks/useFxRates';
+
+// Rows of the report table (label + value selector)
+const REPORT_ROWS: Array<{ label: string; value: (report: BankTaxReport) => number; highlight?: boolean }> = [
+  { label: 'Aktiengewinne', value: (r) => r.stockGains },
+  { label: 'Aktienverluste', value: (r) => -r.stockLosses },
+  { label: 'Sonstige Gewinne', value: (r) => r.otherGains },
+  { label: 'Sonstige Verluste', value: (r) => -r.otherLosses },
+  { label: 'Dividenden', value: (r) => r.dividends },
+  { label: 'Teilfreistellung (bereits abgezogen)', value: (r) => r.partialExemption },
+  { label: 'Aktienverlusttopf Vorjahr', value: (r) => -r.lossPotsCarriedIn.stock },
+  { label: 'Allg. Verlusttopf Vorjahr', value: (r) => -r.lossPotsCarriedIn.general },
+  { label: 'Erträge nach Verlustverrechnung', value: (r) => r.incomeAfterLosses, highlight: true },
+  { label: 'Freistellungsauftrag', value: (r) => r.freistellungsauftrag },
+  { label: 'davon genutzt', value: (r) => -r.usedAllowance },
+  { label: 'Steuerpflichtige Erträge', value: (r) => r.taxableIncome, highlight: true },
+  { label: 'Abgeltungsteuer', value: (r) => r.abgeltungsteuer },
+  { label: 'Solidaritätszuschlag', value: (r) => r.soli },
+  { label: 'Kirchensteuer', value: (r) => r.kirchensteuer },
+  { label: 'Steuer gesamt', value: (r) => r.totalTax, highlight: true },
+  { label: 'Einbehaltene Steuern (erfasst)', value: (r) => r.taxesWithheld },
+  { label: 'Aktienverlusttopf Jahresende', value: (r) => r.lossPotsCarriedOut.stock },
+  { label: 'Allg. Verlusttopf Jahresende', value: (r) => r.lossPotsCarriedOut.general },
+];
+
+export default function TaxReportPage() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [churchTaxRate, setChurchTaxRate] = useState<ChurchTaxRate>(0);
+  const [fundPrices, setFundPrices] = useState<Record<string, FundYearPrices>>({});
+  const [fundPricesYear, setFundPricesYear] = useState<number | null>(null);
+  const [isLoadingFundPrices, setIsLoadingFundPrices] = useState(false);
+
+  // Banks in the trash don't count
+  const ledger = useLiveQuery(() => getActiveLedger());
+  const banks = ledger?.banks;
+  const positions = ledger?.positions;
+  const transactions = ledger?.transactions;
+
+  // Taxes are calculated in EUR at the rate of each transaction date
+  const { rates, isLoadingRates, fetchFxRates } = useFxRates('EUR');
+  useEffect(() => {
+    if (!transactions) return;
+
+    fetchFxRates([
+      ...transactions.map((transaction) => ({ currency: transaction.currency, date: transaction.date })),
+      // Vorabpauschale at the year-end rate (the current rate while the year runs)
+      ...(year < new Date().getFullYear()
+        ? transactions.map((transaction) => ({ currency: transaction.currency, date: new Date(year, 11, 31) }))
+        : []),
+    ]);
+  }, [transactions, year, fetchFxRates]);
+
+  // Selectable years: every year with transactions plus the current year
+  const years = [
+    ...new Set([currentYear, ...(transactions ?? []).map((t) => new Date(t.date).getFullYear())]),
+  ].sort((a, b) => b - a);
+
+  const reports =
+    banks && positions && transactions
+      ? calculateTaxReports(banks, positions, transactions, year, churchTaxRate, rates)
+      : [];
+  const totals = sumTaxReports(reports, year);
+  // Sales without a matching purchase are only taxed for the matched shares
+  const unmatchedSales = transactions
+    ? matchLots(transactions).sales.filter((sale) => sale.date.getFullYear() === year && sale.unmatchedQuantity > 0)
+    : [];
+  const totalAllowance = (banks ?? []).reduce((sum, bank) => sum + (bank.freistellungsauftrag || 0), 0);
+
+  // Vorabpauschale of the investment funds (prices are only valid for the year they were loaded for)
+  const fundTickers = [
+    ...new Set(
+      (transactions ?? [])
+        .filter((t) => positions?.some((p) => p.isin === t.isin && isInvestmentFund(p.assetType)))
+        .map((t) => t.ticker)
+    ),
+  ];
+  const vorabpauschalen =
+    banks && positions && transactions
+      ? calculateVorabpauschale(
+        banks,
+        positions,
+        transactions,
+        year,
+        fundPricesYear === year ? fundPrices : {},
+        churchTaxRate,
+        rates
+      ).filter((report) => report.funds.length > 0)
+      : [];
+  const missingRates = mergeMissingRates([
+    totals.missingRates,
+    ...vorabpauschalen.map((report) => report.missingRates),
+  ]);
+
+  const handleLoadFundPrices = async () => {
+    setIsLoadingFundPrices(true);
+
+    try {
+      const results = await Promise.all(
+        fundTickers.map(async (ticker) => {
+          try {
+            const response = await fetch(`/api/stock/${ticker}/history?year=${year}`);
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+            const data = await response.json();
+            return { ticker, data };
+          } catch (error) {
+            console.error(`Failed to fetch fund prices for ${ticker}:`, error);
+            return { ticker, data: null };
+          }
+        })
+      );
+
+      const prices: Record<string, FundYearPrices> = {};
+      results.forEach(({ ticker, data }) => {
+        if (data) {
+          prices[ticker] = { yearStartPrice: data.yearStartPrice, yearEndPrice: data.yearEndPrice };
+        }
+      });
+      setFundPrices(prices);
+      setFundPricesYear(year);
+    } finally {
+      setIsLoadingFundPrices(false);
+    }
+  };
+
+  const formatCurrency = (amount: number, currency: string = 'EUR') => {
+    return new Intl.NumberFormat('de-DE', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-zinc-50 to-zinc-100 dark:from-zinc-900 dark:to-black">
+      <main className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8 flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
+                Steuerreport {year}
+              </h1>
+              <p className="text-zinc-600 dark:text-zinc-400">
+                Abgeltungsteuer je Bank zum Abgleich mit der Jahressteuerbescheinigung
+              </p>
+            </div>
+            <Link
+              href="/dashboard"
+              className="px-4 py-2.5 text-sm bg-zinc-100 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg font-medium hover:bg-zinc-200 dark:hover:bg-zinc-600 transition-colors inline-flex items-center gap-2"
+            >
+              📊 Zum Dashboard
+            </Link>
+          </div>
+
+          {/* Settings */}
+          <div className="mb-6 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+              <DropdownDepotViewer
+                label="Steuerjahr"
+                value={year.toString()}
+                onChange={(value) => setYear(parseInt(value))}
+                options={years.map((y) => ({ value: y.toString(), label: y.toString() }))}
+              />
+              <DropdownDepotViewer
+                label="Kirchensteuer"
+                value={churchTaxRate.toString()}
+                onChange={(value) => setChurchTaxRate(parseFloat(value) as ChurchTaxRate)}
+                options={[
+                  { value: '0', label: 'Keine' },
+                  { value: '0.08', label: '8% (BY, BW)' },
+                  { value: '0.09', label: '9%' },
+                ]}
+              />
+              <button
+                onClick={() => exportTaxReportToCSV(reports, year)}
+                disabled={reports.length === 0}
+                className="px-4 py-2.5 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-700 dark:hover:bg-zinc-200 transition-colors text-sm inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <span>💾</span>
+                <span>Als CSV exportieren</span>
+              </button>
+            </div>
+            {totalAllowance > SPARER_PAUSCHBETRAG && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+                Die Freistellungsaufträge ({formatCurrency(totalAllowance)}) übersteigen den Sparer-Pauschbetrag von{' '}
+                {formatCurrency(SPARER_PAUSCHBETRAG)}.
+              </p>
+            )}
+            {missingRates.length > 0 && !isLoadingRates && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+                Keine Wechselkurse in EUR für{' '}
+                {missingRates
+                  .slice(0, 5)
+                  .map(({ currency, date }) =>
+                    date ? `${currency} (${new Date(`${date}T00:00:00`).toLocaleDateString('de-DE')})` : `${currency} (aktuell)`
+                  )
+                  .join(', ')}
+                {missingRates.length > 5 && ` und ${missingRates.length - 5} weitere`}. Betroffene Beträge sind nicht
+                umgerechnet.
+              </p>
+            )}
+            {unmatchedSales.length > 0 && (
+              <div className="mt-4 text-sm text-red-600 dark:text-red-400">
+                <p>Für folgende Verkäufe fehlen Käufe, nur die gedeckten Stücke sind im Report enthalten:</p>
+                <ul className="list-disc list-inside">
+                  {unmatchedSales.map((sale) => (
+                    <li key={sale.transactionId}>
+                      {sale.ticker} am {sale.date.toLocaleDateString('de-DE')}: {sale.unmatchedQuantity.toLocaleString('de-DE')} Stück ohne Kauf
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Report Table */}
+          <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg overflow-hidden">
+            {reports.length === 0 ? (
+              <p className="text-center text-zinc-500 dark:text-zinc-400 py-8">
+                Keine Banken vorhanden.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-zinc-50 dark:bg-zinc-900">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                        Position
+                      </th>
+                      {reports.map((report) => (
+                        <th
+                          key={report.bankId}
+                          className="px-4 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider"
+                        >
+                          {report.bankName}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                        Gesamt
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                    {REPORT_ROWS.map((row) => (
+                      <tr key={row.label} className={row.highlight ? 'bg-zinc-50 dark:bg-zinc-900 font-semibold' : ''}>
+                        <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50">{row.label}</td>
+                        {[...reports, totals].map((report) => (
+                          <td key={report.bankId} className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">
+                            {formatCurrency(row.value(report))}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Private sales (§ 23 EStG) */}
+          {totals.privateSales.length > 0 && (
+            <div className="mt-8 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+                Private Veräußerungsgeschäfte {year}
+              </h2>
+              <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+                Nicht in der Abgeltungsteuer enthalten, in der Anlage SO der Steuererklärung anzugeben
+                (steuerfrei nach mehr als einem Jahr Haltedauer). Die Anlageart ist in den Depots änderbar.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-zinc-50 dark:bg-zinc-900">
+                    <tr>
+                      {['Bank', 'Ticker', 'ISIN', 'Verkauf', 'Gewinn/Verlust'].map((header, index) => (
+                        <th
+                          key={header}
+                          className={`px-4 py-2 text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider ${index < 4 ? 'text-left' : 'text-right'}`}
+                        >
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                    {reports.flatMap((report) =>
+                      report.privateSales.map((sale, index) => (
+                        <tr key={`${report.bankId}-${index}`}>
+                          <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50">{report.bankName}</td>
+                          <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50 font-medium">{sale.ticker}</td>
+                          <td className="px-4 py-2 text-zinc-600 dark:text-zinc-400">{sale.isin}</td>
+                          <td className="px-4 py-2 text-zinc-600 dark:text-zinc-400">{sale.date.toLocaleDateString('de-DE')}</td>
+                          <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">{formatCurrency(sale.realizedGain)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Vorabpauschale */}
+          {fundTickers.length > 0 && (
+            <div className="mt-8 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+                    Vorabpauschale {year}
+                  </h2>
+                  <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                    Basiszins {((BASISZINS[year] ?? 0) * 100).toFixed(2)}% • steuerpflichtig im Januar {year + 1}
+                    {year === currentYear && ' • vorläufig mit aktuellem Kurs'}
+                  </p>
+                </div>
+                <button
+                  onClick={handleLoadFundPrices}
+                  disabled={isLoadingFundPrices}
+                  className="px-4 py-2.5 text-sm bg-zinc-100 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg font-medium hover:bg-zinc-200 dark:hover:bg-zinc-600 transition-colors inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoadingFundPrices ? 'Lädt...' : '🔄 Fondskurse laden'}
+                </button>
+              </div>
+
+              {BASISZINS[year] === undefined && (
+                <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+                  Für {year} ist kein Basiszins hinterlegt.
+                </p>
+              )}
+
+              {vorabpauschalen.map((report) => (
+                <div key={report.bankId} className="mb-6 last:mb-0">
+                  <div className="flex justify-between items-baseline mb-2">
+                    <h3 className="font-semibold text-zinc-900 dark:text-zinc-50">{report.bankName}</h3>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                      {report.usedAllowance > 0 && <>Freistellungsauftrag: {formatCurrency(-report.usedAllowance)} • </>}
+                      Geschätzte Steuer: <span className="font-semibold text-zinc-900 dark:text-zinc-50">{formatCurrency(report.estimatedTax)}</span>
+                    </p>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-zinc-50 dark:bg-zinc-900">
+                        <tr>
+                          {['Ticker', 'Fondsart', 'Stück', 'Basisertrag', 'Ausschüttungen', 'Vorabpauschale', 'Teilfreistellung', 'Steuerpflichtig'].map((header, index) => (
+                            <th
+                              key={header}
+                              className={`px-4 py-2 text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider ${index < 2 ? 'text-left' : 'text-right'}`}
+                            >
+                              {header}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+                        {report.funds.map((fund) => (
+                          <tr key={fund.ticker}>
+                            <td className="px-4 py-2 text-zinc-900 dark:text-zinc-50 font-medium">{fund.ticker}</td>
+                            <td className="px-4 py-2 text-zinc-600 dark:text-zinc-400">{FUND_TYPE_LABELS[fund.fundType]}</td>
+                            <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">{fund.quantity.toLocaleString('de-DE')}</td>
+                            {fund.missingPrices ? (
+                              <td colSpan={5} className="px-4 py-2 text-right text-zinc-500 dark:text-zinc-400">
+                                Kurse nicht geladen
+                              </td>
+                            ) : (
+                              <>
+                                <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">{formatCurrency(fund.basisertrag)}</td>
+                                <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">{formatCurrency(fund.distributions)}</td>
+                                <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">{formatCurrency(fund.vorabpauschale)}</td>
+                                <td className="px-4 py-2 text-right text-zinc-900 dark:text-zinc-50">{formatCurrency(-fund.partialExemption)}</td>
+                                <td className="px-4 py-2 text-right font-semibold text-zinc-900 dark:text-zinc-50">{formatCurrency(fund.taxableAmount)}</td>
+                              </>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="mt-4 text-xs text-zinc-500 dark:text-zinc-400">
+            Verluste aus Aktienverkäufen werden nur mit Aktiengewinnen verrechnet (Aktienverlusttopf), alle übrigen
+            Verluste mit sämtlichen Kapitalerträgen. Nicht verrechnete Verluste werden je Bank ins Folgejahr vorgetragen.
+            Beträge in Fremdwährung sind zum Kurs des Transaktionstags in EUR umgerechnet (Anschaffungskosten zum Kurs
+            des Kaufs, die Vorabpauschale zum Kurs am Jahresende). Gewinne und Ausschüttungen von ETFs und Fonds sind um die Teilfreistellung ihrer Fondsart gemindert. Krypto
+            und Rohstoffe (z.B. Xetra-Gold) sind private Veräußerungsgeschäfte und separat aufgeführt. Die geschätzte Steuer
+            auf die Vorabpauschale ist um den im Folgejahr nicht durch andere Erträge genutzten Freistellungsauftrag
+            gemindert.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { db, createOpeningBuy, Position } from './db';
+import { downloadFile } from './csv-utils';
+import { decryptText, deriveKey, encryptText, getEncryptionKey } from './crypto';
+import { getEncryptionConfig } from './encryption';
+
+/**
+ * Full JSON backup of the IndexedDB database
+ * Unlike the CSV exports a backup keeps ids, timestamps and the relations between tables
+ */
+
+const BACKUP_FORMAT = 'depots-viewer-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+type BackupRow = Record<string, unknown>;
+type BackupTables = Record<string, BackupRow[]>;
+
+export interface DatabaseBackup {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // Dexie version of the database the backup was created from
+  exportedAt: string;
+  tables: BackupTables;
+}
+
+// Backup of an encrypted database, data is the encrypted JSON of a DatabaseBackup
+interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  encryption: { salt: string; iterations: number };
+  data: string;
+}
+
+// Replace: the database is cleared first, merge: backup rows are added with new ids
+export type RestoreMode = 'replace' | 'merge';
+
+// Foreign keys per table (field -> referenced table), tables are restored in this order
+const TABLE_RELATIONS: Record<string, Record<string, string>> = {
+  banks: {},
+  positions: { bankId: 'banks' },
+  transactions: { bankId: 'banks', positionId: 'positions' },
+  importTemplates: {},
+  importBatches: {},
+};
+
+export const BACKUP_TABLE_LABELS: Record<string, string> = {
+  banks: 'Banken',
+  positions: 'Positionen',
+  transactions: 'Transaktionen',
+  importTemplates: 'Import-Vorlagen',
+  importBatches: 'Import-Historie',
+};
+
+// Fields every row of a table needs
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  banks: ['name'],
+  positions: ['bankId', 'isin', 'ticker', 'purchaseDate', 'quantity', 'purchasePrice', 'currency'],
+  transactions: ['bankId', 'isin', 'ticker', 'type', 'date', 'quantity', 'price', 'currency'],
+  importTemplates: ['name', 'columns'],
+  importBatches: ['label', 'mode', 'added', 'removed', 'createdAt'],
+};
+
+// Migrations of backups from older schema versions (key = version the backup is migrated from)
+const BACKUP_MIGRATIONS: Record<number, (tables: BackupTables) => BackupTables> = {
+  // Version 2: transaction ledger, every position becomes an opening buy
+  1: (tables) => ({
+    ...tables,
+    transactions: (tables.positions ?? []).map((row) => {
+      const position = row as unknown as Position;
+      return createOpeningBuy(position, position.id!) as unknown as BackupRow;
+    }),
+  }),
+  // Version 3: saved column mappings for the CSV import
+  2: (tables) => ({ ...tables, importTemplates: [] }),
+  // Version 4: import history for undo
+  3: (tables) => ({ ...tables, importBatches: [] }),
+  // Version 5: bank names are no longer indexed, the rows stay as they are
+  4: (tables) => tables,
+};
+
+/**
+ * Tags dates so they survive the JSON round trip
+ */
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, encodeValue(v)]));
+  }
+  return value;
+}
+
+/**
+ * Restores tagged dates
+ */
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.$date === 'string' && Object.keys(record).length === 1) {
+      return new Date(record.$date);
+    }
+    return Object.fromEntries(Object.entries(record).map(([key, v]) => [key, decodeValue(v)]));
+  }
+  return value;
+}
+
+/**
+ * Creates a backup of all tables
+ */
+export async function createBackup(): Promise<DatabaseBackup> {
+  const tables: BackupTables = {};
+  await db.transaction('r', db.tables, async () => {
+    for (const table of db.tables) {
+      tables[table.name] = encodeValue(await table.toArray()) as BackupRow[];
+    }
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: db.verno,
+    exportedAt: new Date().toISOString(),
+    tables,
+  };
+}
+
+/**
+ * Creates a backup and downloads it as JSON file
+ * Backups of an encrypted database are encrypted with the same passphrase
+ */
+export async function downloadBackup(): Promise<void> {
+  const backup = await createBackup();
+  const timestamp = new Date().toISOString().split('T')[0];
+
+  const key = getEncryptionKey();
+  const config = getEncryptionConfig();
+  if (key && config) {
+    const file: EncryptedBackupFile = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      encryption: { salt: config.salt, iterations: config.iterations },
+      data: await encryptText(JSON.stringify(backup), key),
+    };
+    downloadFile(JSON.stringify(file, null, 2), `depots-backup-${timestamp}.json`, 'application/json');
+    return;
+  }
+
+  downloadFile(JSON.stringify(backup, null, 2), `depots-backup-${timestamp}.json`, 'application/json');
+}
+
+/**
+ * Checks whether a backup file is encrypted (needs decryptBackup before parseBackup)
+ */
+export function isEncryptedBackup(content: string): boolean {
+  try {
+    const file = JSON.parse(content);
+    return file?.format === BACKUP_FORMAT && typeof file.encryption === 'object' && typeof file.data === 'string';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decrypts an encrypted backup file, returns the backup JSON
+ */
+export async function decryptBackup(content: string, passphrase: string): Promise<string> {
+  const file: EncryptedBackupFile = JSON.parse(content);
+  const key = await deriveKey(passphrase, file.encryption.salt, file.encryption.iterations);
+  try {
+    return await decryptText(file.data, key);
+  } catch {
+    throw new Error('Falsche Passphrase');
+  }
+}
+
+/**
+ * Parses and validates a backup file and migrates it to the current schema version
+ */
+export function parseBackup(content: string): DatabaseBackup {
+  let backup: DatabaseBackup;
+  try {
+    backup = JSON.parse(content);
+  } catch {
+    throw new Error('Die Datei ist keine gültige JSON-Datei');
+  }
+
+  if (backup?.format !== BACKUP_FORMAT || typeof backup.tables !== 'object' || backup.tables === null) {
+    throw new Error('Die Datei ist kein Depots-Viewer-Backup');
+  }
+  if (backup.formatVersion > BACKUP_FORMAT_VERSION || backup.schemaVersion > db.verno) {
+    throw new Error('Das Backup stammt aus einer neueren App-Version und kann nicht wiederhergestellt werden');
+  }
+  if (!Number.isInteger(backup.schemaVersion) || backup.schemaVersion < 1) {
+    throw new Error('Das Backup enthält keine gültige Schema-Version');
+  }
+
+  let tables = decodeValue(backup.tables) as BackupTables;
+  for (let version = backup.schemaVersion; version < db.verno; version++) {
+    tables = BACKUP_MIGRATIONS[version]?.(tables) ?? tables;
+  }
+
+  for (const [name, rows] of Object.entries(tables)) {
+    if (!TABLE_RELATIONS[name]) {
+      throw new Error(`Unbekannte Tabelle '${name}' im Backup`);
+    }
+    if (!Array.isArray(rows)) {
+      throw new Error(`Tabelle '${name}' ist ungültig`);
+    }
+    rows.forEach((row, index) => {
+      const missing = REQUIRED_FIELDS[name].filter((field) => row?.[field] === undefined);
+      if (missing.length > 0) {
+        throw new Error(`Tabelle '${name}', Eintrag ${index + 1}: ${missing.join(', ')} fehlt`);
+      }
+    });
+  }
+
+  return { ...backup, schemaVersion: db.verno, tables };
+}
+
+/**
+ * Restores a (parsed) backup
+ * Merging adds all rows with new ids and rewires the relations, replacing keeps the ids
+ */
+export async function restoreBackup(backup: DatabaseBackup, mode: RestoreMode): Promise<void> {
+  await db.transaction('rw', db.tables, async () => {
+    if (mode === 'replace') {
+      for (const table of db.tables) {
+        await table.clear();
+      }
+    }
+
+    // Old id -> new id per table
+    const idMaps: Record<string, Map<number, number>> = {};
+
+    for (const [name, relations] of Object.entries(TABLE_RELATIONS)) {
+      const rows = backup.tables[name] ?? [];
+      const table = db.table(name);
+      idMaps[name] = new Map();
+
+      if (mode === 'replace') {
+        await table.bulkAdd(rows);
+        continue;
+      }
+
+      // The import history refers to the ids of the backup, it can't be undone after merging
+      if (name === 'importBatches') continue;
+
+      for (const { id, ...row } of rows) {
+        for (const [field, referencedTable] of Object.entries(relations)) {
+          if (row[field] === undefined) continue;
+          const newId = idMaps[referencedTable].get(row[field] as number);
+          if (newId === undefined) {
+            throw new Error(`Tabelle '${name}' verweist auf einen fehlenden Eintrag in '${referencedTable}'`);
+          }
+          row[field] = newId;
+        }
+        const newId = (await table.add(row)) as number;
+        if (typeof id === 'number') idMaps[name].set(id, newId);
+      }
+    }
+  });
+}
+
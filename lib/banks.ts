@@ -0,0 +1,117 @@
+import { db, Bank, Position, Transaction } from './db';
+
+/**
+ * Bank lifecycle: archived banks are kept with their ledger in the trash until they are
+ * restored or deleted for good, deleting always removes the dependent rows as well
+ */
+
+export interface Ledger {
+  banks: Bank[];
+  positions: Position[];
+  transactions: Transaction[];
+}
+
+// Rows depending on a bank
+export interface BankDependents {
+  positions: number;
+  transactions: number;
+}
+
+// Rows whose bank or position no longer exists
+export interface Orphans {
+  positions: Position[];
+  transactions: Transaction[];
+}
+
+export function isArchived(bank: Bank): boolean {
+  return bank.archivedAt !== undefined;
+}
+
+/**
+ * Finds an active bank by name (case-insensitive), e.g. for the bank column of an import
+ */
+export function findBankByName(banks: Bank[], name: string): Bank | undefined {
+  const normalized = name.trim().toLowerCase();
+  return banks.find((bank) => !isArchived(bank) && bank.name.trim().toLowerCase() === normalized);
+}
+
+/**
+ * Loads banks, positions and transactions without archived banks and orphaned rows
+ */
+export async function getActiveLedger(): Promise<Ledger> {
+  const banks = (await db.banks.toArray()).filter((bank) => !isArchived(bank));
+  const bankIds = new Set(banks.map((bank) => bank.id));
+  const positions = (await db.positions.toArray()).filter((p) => bankIds.has(p.bankId));
+  const transactions = (await db.transactions.toArray()).filter((t) => bankIds.has(t.bankId));
+  return { banks, positions, transactions };
+}
+
+/**
+ * Counts the positions and transactions of a bank
+ */
+export async function getBankDependents(bankId: number): Promise<BankDependents> {
+  return {
+    positions: await db.positions.where('bankId').equals(bankId).count(),
+    transactions: await db.transactions.where('bankId').equals(bankId).count(),
+  };
+}
+
+/**
+ * Moves a bank with its ledger to the trash
+ */
+export async function archiveBank(id: number): Promise<void> {
+  await db.banks.update(id, { archivedAt: new Date() });
+}
+
+/**
+ * Restores a bank with its ledger from the trash
+ */
+export async function restoreBank(id: number): Promise<void> {
+  await db.banks.update(id, { archivedAt: undefined });
+}
+
+/**
+ * Deletes a bank for good, together with its positions, transactions and import history
+ * Ids added by imports stay in their batch, undoing only deletes them and they are gone already
+ */
+export async function deleteBank(id: number): Promise<void> {
+  await db.transaction('rw', [db.banks, db.positions, db.transactions, db.importBatches], async () => {
+    await db.transactions.where('bankId').equals(id).delete();
+    await db.positions.where('bankId').equals(id).delete();
+    await db.importBatches.where('bankId').equals(id).delete();
+    await db.banks.delete(id);
+
+    // Imports into several banks keep their batch, but undoing them must not bring the bank's rows back
+    await db.importBatches.toCollection().modify((batch) => {
+      batch.added.banks = batch.added.banks?.filter((bankId) => bankId !== id);
+      batch.removed.banks = batch.removed.banks?.filter((bank) => bank.id !== id);
+      batch.removed.positions = batch.removed.positions?.filter((position) => position.bankId !== id);
+      batch.removed.transactions = batch.removed.transactions?.filter((transaction) => transaction.bankId !== id);
+    });
+  });
+}
+
+/**
+ * Finds positions and transactions of deleted banks and opening buys of deleted positions
+ */
+export async function findOrphans(): Promise<Orphans> {
+  const bankIds = new Set(await db.banks.toCollection().primaryKeys());
+  const positions = (await db.positions.toArray()).filter((p) => !bankIds.has(p.bankId));
+  const positionIds = new Set(await db.positions.toCollection().primaryKeys());
+  const transactions = (await db.transactions.toArray()).filter(
+    (t) => !bankIds.has(t.bankId) || (t.positionId !== undefined && !positionIds.has(t.positionId))
+  );
+  return { positions, transactions };
+}
+
+/**
+ * Deletes all orphaned rows, returns how many were removed
+ */
+export async function repairOrphans(): Promise<BankDependents> {
+  return db.transaction('rw', [db.banks, db.positions, db.transactions], async () => {
+    const orphans = await findOrphans();
+    await db.transactions.bulkDelete(orphans.transactions.map((t) => t.id!));
+    await db.positions.bulkDelete(orphans.positions.map((p) => p.id!));
+    return { positions: orphans.positions.length, transactions: orphans.transactions.length };
+  });
+}
@@ -0,0 +1,244 @@
+import Dexie, { DBCore, DBCoreCursor, DBCoreTable, Middleware } from 'dexie';
+
+/**
+ * Client-side encryption of sensitive fields (WebCrypto AES-GCM, key derived from a passphrase via PBKDF2)
+ * The key only lives in memory, encrypted rows can't be read while the database is locked
+ */
+
+export const PBKDF2_ITERATIONS = 310000;
+
+// Sensitive fields of a row are stored together as one encrypted JSON blob in this field
+const ENCRYPTED_FIELD = '_encrypted';
+
+// Encrypted fields per table (none of them is indexed, see lib/db.ts, so queries keep working)
+export const ENCRYPTED_FIELDS: Record<string, string[]> = {
+  banks: ['name', 'notes', 'freistellungsauftrag'],
+  positions: ['quantity', 'purchasePrice', 'notes'],
+  transactions: ['quantity', 'price', 'fees', 'taxes', 'notes'],
+  importBatches: ['label', 'removed'],
+};
+
+let encryptionKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+export function getEncryptionKey(): CryptoKey | null {
+  return encryptionKey;
+}
+
+/**
+ * Sets (unlock) or clears (lock) the key and notifies subscribers
+ */
+export function setEncryptionKey(key: CryptoKey | null) {
+  encryptionKey = key;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeEncryptionKey(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Random salt for the key derivation (base64)
+ */
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Derives the AES-GCM key from a passphrase
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts a text, returns base64 of IV + ciphertext
+ */
+export async function encryptText(text: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+
+  const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64(payload);
+}
+
+/**
+ * Decrypts a text encrypted by encryptText (throws if the key is wrong)
+ */
+export async function decryptText(payload: string, key: CryptoKey): Promise<string> {
+  const bytes = fromBase64(payload);
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * JSON with tagged dates, so encrypted rows keep their Date values
+ */
+function stringify(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key: string, v: unknown) {
+    return this[key] instanceof Date ? { $date: (this[key] as Date).toISOString() } : v;
+  });
+}
+
+function parse(text: string): Record<string, unknown> {
+  return JSON.parse(text, (_key, v) =>
+    v && typeof v === 'object' && typeof v.$date === 'string' && Object.keys(v).length === 1 ? new Date(v.$date) : v
+  );
+}
+
+function isEncryptedRow(row: unknown): row is Record<string, unknown> {
+  return !!row && typeof row === 'object' && ENCRYPTED_FIELD in row;
+}
+
+async function encryptRow(row: Record<string, unknown>, fields: string[], key: CryptoKey) {
+  const rest = { ...row };
+  const secret: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field in rest) {
+      secret[field] = rest[field];
+      delete rest[field];
+    }
+  }
+  return { ...rest, [ENCRYPTED_FIELD]: await encryptText(stringify(secret), key) };
+}
+
+async function decryptRow(row: unknown): Promise<unknown> {
+  if (!isEncryptedRow(row)) return row;
+  if (!encryptionKey) {
+    throw new Error('Die Datenbank ist gesperrt');
+  }
+
+  const { [ENCRYPTED_FIELD]: payload, ...rest } = row;
+  return { ...rest, ...parse(await decryptText(payload as string, encryptionKey)) };
+}
+
+// Last pending wait per IndexedDB transaction
+const pendingWaits = new WeakMap<object, Promise<unknown>>();
+
+/**
+ * Keeps the surrounding IndexedDB transaction alive while WebCrypto works
+ * Overlapping Dexie.waitFor calls can leave a wait unresolved, so each one starts after the previous
+ */
+function waitForCrypto<T>(operation: Promise<T>): Promise<T> {
+  const transaction = Dexie.currentTransaction;
+  if (!transaction) return operation;
+
+  const previous = pendingWaits.get(transaction) ?? Dexie.Promise.resolve();
+  const wait = previous.then(() => Dexie.waitFor(operation));
+  pendingWaits.set(transaction, wait.catch(() => undefined));
+  return wait;
+}
+
+/**
+ * Decrypts rows read from IndexedDB
+ */
+function decryptRows<T>(rows: T[]): T[] | Promise<T[]> {
+  if (!rows.some(isEncryptedRow)) return rows;
+  return waitForCrypto(Promise.all(rows.map(decryptRow)) as Promise<T[]>);
+}
+
+/**
+ * Wraps a cursor so that its values are read from already decrypted rows
+ */
+function decryptingCursor(cursor: DBCoreCursor, decrypted: Map<string, unknown>): DBCoreCursor {
+  // Native cursor members must be called on the cursor itself
+  return Object.create(cursor, {
+    continue: { value: (key?: unknown) => cursor.continue(key) },
+    continuePrimaryKey: { value: (key: unknown, primaryKey: unknown) => cursor.continuePrimaryKey(key, primaryKey) },
+    advance: { value: (count: number) => cursor.advance(count) },
+    key: { get: () => cursor.key },
+    primaryKey: { get: () => cursor.primaryKey },
+    value: {
+      get: () => (isEncryptedRow(cursor.value) ? decrypted.get(cursor.value[ENCRYPTED_FIELD] as string) : cursor.value),
+    },
+  });
+}
+
+function encryptingTable(table: DBCoreTable, fields: string[]): DBCoreTable {
+  return {
+    ...table,
+    mutate: (req) => {
+      const key = encryptionKey;
+      if (!key || (req.type !== 'add' && req.type !== 'put')) return table.mutate(req);
+
+      return waitForCrypto(Promise.all(req.values.map((value) => encryptRow(value, fields, key)))).then(
+        (values) => table.mutate({ ...req, values })
+      );
+    },
+    get: (req) =>
+      Dexie.Promise.resolve(table.get(req)).then((row) => Dexie.Promise.resolve(decryptRows([row])).then(([value]) => value)),
+    getMany: (req) => Dexie.Promise.resolve(table.getMany(req)).then((rows) => decryptRows(rows)),
+    query: (req) =>
+      Dexie.Promise.resolve(table.query(req)).then((res) =>
+        req.values ? Dexie.Promise.resolve(decryptRows(res.result)).then((result) => ({ ...res, result })) : res
+      ),
+    openCursor: (req) => {
+      if (!req.values) return table.openCursor(req);
+
+      // Cursor values are read synchronously, so the rows of the range are decrypted up front
+      return Dexie.Promise.resolve(table.query({ trans: req.trans, values: true, query: req.query }))
+        .then(({ result }) => {
+          const encrypted = result.filter(isEncryptedRow);
+          return Dexie.Promise.resolve(decryptRows(encrypted)).then((rows) =>
+            new Map(encrypted.map((row, index) => [row[ENCRYPTED_FIELD] as string, rows[index]]))
+          );
+        })
+        .then((decrypted) =>
+          Dexie.Promise.resolve(table.openCursor(req)).then((cursor) =>
+            cursor ? decryptingCursor(cursor, decrypted) : cursor
+          )
+        );
+    },
+  };
+}
+
+/**
+ * Dexie middleware encrypting the sensitive fields on write and decrypting them on read
+ * Rows written while encryption is disabled stay readable as they are
+ */
+export const encryptionMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'encryption',
+  create: (down: DBCore) => ({
+    ...down,
+    table: (tableName: string) => {
+      const table = down.table(tableName);
+      const fields = ENCRYPTED_FIELDS[tableName];
+      return fields ? encryptingTable(table, fields) : table;
+    },
+  }),
+};
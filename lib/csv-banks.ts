@@ -1,9 +1,11 @@
 import { Bank } from './db';
-import { arrayToCSV, csvToArray, downloadFile } from './csv-utils';
+import { arrayToCSV, csvToArray, CSVRowEdits, downloadFile } from './csv-utils';
 
 export interface BankImportRow extends Omit<Bank, 'id'> {
   _rowNumber: number;
+  _raw: Record<string, string>; // Values of the CSV row (including edits), shown in the editable preview
   _error?: string;
+  _excluded?: boolean; // Excluded from the import by the user
 }
 
 export interface BankParseResult {
@@ -12,7 +14,7 @@ export interface BankParseResult {
   allRows: BankImportRow[];
 }
 
-const BANK_CSV_HEADERS = ['name', 'notes'];
+const BANK_CSV_HEADERS = ['name', 'notes', 'freistellungsauftrag'];
 
 /**
  * Downloads example bank CSV file
@@ -21,11 +23,13 @@ export function downloadExampleBankCSV() {
   const exampleBanks = [
     {
       name: 'Beispielbank AG',
-      notes: 'Mein Hauptdepot'
+      notes: 'Mein Hauptdepot',
+      freistellungsauftrag: '801'
     },
     {
       name: 'Broker XYZ',
-      notes: 'Für ETF-Sparpläne'
+      notes: 'Für ETF-Sparpläne',
+      freistellungsauftrag: '199'
     }
   ];
 
@@ -44,7 +48,8 @@ export function exportBanksToCSV(banks: Bank[]) {
 
   const banksForExport = banks.map(bank => ({
     name: bank.name,
-    notes: bank.notes || ''
+    notes: bank.notes || '',
+    freistellungsauftrag: bank.freistellungsauftrag ?? ''
   }));
 
   const csv = arrayToCSV(banksForExport, BANK_CSV_HEADERS);
@@ -60,30 +65,51 @@ function parseBankRow(row: Record<string, string>, rowIndex: number): Omit<Bank,
     throw new Error('Bank-Name ist ein Pflichtfeld');
   }
 
+  // Parse optional allowance
+  let freistellungsauftrag: number | undefined;
+  if (row.freistellungsauftrag?.trim()) {
+    freistellungsauftrag = parseFloat(row.freistellungsauftrag.trim());
+    if (isNaN(freistellungsauftrag) || freistellungsauftrag < 0) {
+      throw new Error('Freistellungsauftrag muss eine positive Zahl sein');
+    }
+  }
+
   return {
     name: row.name.trim(),
     notes: row.notes?.trim() || undefined,
+    freistellungsauftrag,
     createdAt: new Date()
   };
 }
 
 /**
  * Parses CSV and returns result with successful banks, errors, and all rows for preview
+ * Edited values replace those of the file, excluded rows are validated but not imported
  */
-export function parseBankCSV(csvContent: string): BankParseResult {
+export function parseBankCSV(
+  csvContent: string,
+  rowEdits: CSVRowEdits = {},
+  excludedRows: number[] = []
+): BankParseResult {
   const rows = csvToArray(csvContent);
   const success: Omit<Bank, 'id'>[] = [];
   const errors: { row: number; error: string }[] = [];
   const allRows: BankImportRow[] = [];
 
-  rows.forEach((row, index) => {
+  rows.forEach((fileRow, index) => {
     const rowNumber = index + 2; // +2 because: +1 for header, +1 for 1-based indexing
+    const row = { ...fileRow, ...rowEdits[rowNumber] };
     try {
       const bank = parseBankRow(row, rowNumber);
-      success.push(bank);
+      const excluded = excludedRows.includes(rowNumber);
+      if (!excluded) {
+        success.push(bank);
+      }
       allRows.push({
         ...bank,
-        _rowNumber: rowNumber
+        _rowNumber: rowNumber,
+        _raw: row,
+        _excluded: excluded || undefined
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unbekannter Fehler';
@@ -97,6 +123,7 @@ export function parseBankCSV(csvContent: string): BankParseResult {
         notes: row.notes?.trim(),
         createdAt: new Date(),
         _rowNumber: rowNumber,
+        _raw: row,
         _error: errorMessage
       });
     }
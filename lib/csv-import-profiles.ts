@@ -0,0 +1,433 @@
+import { TransactionType } from './db';
+import { csvToArray } from './csv-utils';
+import { DateFormat, parseDate, parseNumber } from './import-formats';
+
+/**
+ * Broker-specific CSV import profiles
+ * A profile maps a broker export (column names, number and date format, transaction types)
+ * to rows in our own position CSV format, which are then validated by parsePositionCSV
+ */
+
+// Fields of our own format a broker column can be mapped to
+export type ImportField =
+  | 'type'
+  | 'isin'
+  | 'ticker'
+  | 'name'
+  | 'assetType'
+  | 'date'
+  | 'quantity'
+  | 'price'
+  | 'amount'
+  | 'currency'
+  | 'fees'
+  | 'taxes'
+  | 'notes'
+  | 'bank';
+
+export type ImportDateFormat = DateFormat;
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  detectHeaders: string[]; // All of these headers identify an export of this broker
+  columns: Partial<Record<ImportField, string[]>>; // Candidate source headers per field
+  decimalSeparator: ',' | '.';
+  dateFormat: ImportDateFormat;
+  transactionTypes?: Record<string, TransactionType | null>; // Broker label -> type (null = skip row)
+  amountCurrency?: string; // Currency of the amount column if it isn't the instrument's (e.g. always EUR)
+  skipRow?: (row: Record<string, string>) => boolean;
+}
+
+/**
+ * Column mapping defined by the user for files no profile matches (one source header per field)
+ */
+export interface ColumnMapping {
+  columns: Partial<Record<ImportField, string>>;
+  decimalSeparator: ',' | '.';
+  dateFormat: ImportDateFormat;
+}
+
+/**
+ * Row of a broker file converted to our format (null = row is not relevant, e.g. cash deposits)
+ */
+export interface ProfileRow {
+  rowNumber: number;
+  row: Record<string, string> | null;
+}
+
+// Our own export format (lib/csv-positions.ts), used as is
+export const DEFAULT_PROFILE_ID = 'depots-viewer';
+
+export const IMPORT_PROFILES: ImportProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Depots Viewer (eigenes Format)',
+    detectHeaders: ['isin', 'ticker', 'purchaseDate'],
+    columns: {},
+    decimalSeparator: '.',
+    dateFormat: 'YYYY-MM-DD',
+  },
+  {
+    // Export of the pytr tool (Trade Republic offers no CSV export itself)
+    id: 'trade-republic',
+    name: 'Trade Republic (pytr)',
+    detectHeaders: ['Datum', 'Typ', 'Wert', 'Notiz', 'ISIN'],
+    columns: {
+      date: ['Datum'],
+      type: ['Typ'],
+      amount: ['Wert'],
+      name: ['Notiz'],
+      isin: ['ISIN'],
+      quantity: ['Stück'],
+      fees: ['Gebühren'],
+      taxes: ['Steuern'],
+    },
+    decimalSeparator: ',',
+    dateFormat: 'YYYY-MM-DD',
+    transactionTypes: {
+      Kauf: 'buy',
+      Sparplan: 'buy',
+      Verkauf: 'sell',
+      Dividende: 'dividend',
+      Ausschüttung: 'dividend',
+      Einlage: null,
+      Entnahme: null,
+      Zinsen: null,
+      Steuern: null,
+    },
+  },
+  {
+    id: 'scalable',
+    name: 'Scalable Capital',
+    detectHeaders: ['date', 'status', 'reference', 'description', 'type', 'isin', 'shares'],
+    columns: {
+      date: ['date'],
+      type: ['type'],
+      name: ['description'],
+      isin: ['isin'],
+      quantity: ['shares'],
+      price: ['price'],
+      amount: ['amount'],
+      fees: ['fee'],
+      taxes: ['tax'],
+      currency: ['currency'],
+    },
+    decimalSeparator: ',',
+    dateFormat: 'YYYY-MM-DD',
+    transactionTypes: {
+      Buy: 'buy',
+      'Savings plan': 'buy',
+      Sell: 'sell',
+      Distribution: 'dividend',
+      Dividend: 'dividend',
+      'Security transfer': 'transfer-in',
+      Deposit: null,
+      Withdrawal: null,
+      Interest: null,
+      Fee: null,
+      Taxes: null,
+    },
+    skipRow: (row) => !!row.status && row.status !== 'Executed',
+  },
+  {
+    id: 'comdirect',
+    name: 'comdirect (Depotumsätze)',
+    detectHeaders: ['Buchungstag', 'Geschäftstag', 'Stück / Nom.', 'Bezeichnung'],
+    columns: {
+      date: ['Geschäftstag', 'Buchungstag'],
+      type: ['Geschäftsart', 'Transaktionsart'],
+      quantity: ['Stück / Nom.'],
+      name: ['Bezeichnung'],
+      isin: ['ISIN'],
+      currency: ['Währung'],
+      price: ['Ausführungskurs'],
+      amount: ['Umsatz in EUR'],
+    },
+    amountCurrency: 'EUR',
+    decimalSeparator: ',',
+    dateFormat: 'DD.MM.YYYY',
+    transactionTypes: {
+      Kauf: 'buy',
+      Verkauf: 'sell',
+      Ausschüttung: 'dividend',
+      Dividende: 'dividend',
+      Einbuchung: 'transfer-in',
+      Ausbuchung: 'transfer-out',
+    },
+  },
+  {
+    id: 'ing',
+    name: 'ING (Depotübersicht)',
+    detectHeaders: ['ISIN', 'Wertpapiername', 'Stück/Nominale', 'Einstandskurs'],
+    columns: {
+      isin: ['ISIN'],
+      name: ['Wertpapiername'],
+      quantity: ['Stück/Nominale'],
+      price: ['Einstandskurs'],
+      currency: ['Währung'],
+      date: ['Kaufdatum', 'Datum'],
+    },
+    decimalSeparator: ',',
+    dateFormat: 'DD.MM.YYYY',
+  },
+  {
+    id: 'dkb',
+    name: 'DKB (Depotbestand)',
+    detectHeaders: ['Bestand', 'ISIN', 'WKN', 'Bezeichnung', 'Einstandskurs'],
+    columns: {
+      quantity: ['Bestand'],
+      isin: ['ISIN'],
+      name: ['Bezeichnung'],
+      price: ['Einstandskurs'],
+      currency: ['Währung'],
+      date: ['Kaufdatum', 'Datum'],
+    },
+    decimalSeparator: ',',
+    dateFormat: 'DD.MM.YYYY',
+  },
+  {
+    id: 'flatex',
+    name: 'flatex (Depotumsätze)',
+    detectHeaders: ['Buchtag', 'Valuta', 'ISIN', 'Bezeichnung', 'Nominal'],
+    columns: {
+      date: ['Buchtag'],
+      type: ['Transaktionsart', 'Buchungsinformationen'],
+      isin: ['ISIN'],
+      name: ['Bezeichnung'],
+      quantity: ['Nominal'],
+      price: ['Kurs'],
+      currency: ['Währung'],
+    },
+    decimalSeparator: ',',
+    dateFormat: 'DD.MM.YYYY',
+    transactionTypes: {
+      Kauf: 'buy',
+      Verkauf: 'sell',
+      Ausschüttung: 'dividend',
+      Dividende: 'dividend',
+      Einbuchung: 'transfer-in',
+      Ausbuchung: 'transfer-out',
+    },
+  },
+];
+
+// Id of the profile built from a user-defined column mapping
+export const CUSTOM_PROFILE_ID = 'custom';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  type: 'Transaktionsart',
+  isin: 'ISIN',
+  ticker: 'Ticker',
+  name: 'Bezeichnung',
+  assetType: 'Asset-Typ',
+  date: 'Datum',
+  quantity: 'Anzahl',
+  price: 'Kurs pro Stück',
+  amount: 'Betrag (gesamt)',
+  currency: 'Währung',
+  fees: 'Gebühren',
+  taxes: 'Steuern',
+  notes: 'Notizen',
+  bank: 'Bank/Depot',
+};
+
+// Fields without which no row can be imported (price can also be derived from the amount)
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['isin', 'date', 'quantity'];
+
+// Common header names per field, used to prefill a new column mapping
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  type: ['type', 'typ', 'transaktionsart', 'geschäftsart', 'art'],
+  isin: ['isin'],
+  ticker: ['ticker', 'symbol'],
+  name: ['name', 'bezeichnung', 'wertpapier', 'wertpapiername', 'description'],
+  assetType: ['assettype', 'asset type', 'anlageklasse'],
+  date: ['date', 'datum', 'purchasedate', 'kaufdatum', 'buchungstag', 'handelstag'],
+  quantity: ['quantity', 'anzahl', 'stück', 'stueck', 'shares', 'menge', 'nominal', 'bestand'],
+  price: ['price', 'purchaseprice', 'kurs', 'preis', 'einstandskurs', 'kaufkurs'],
+  amount: ['amount', 'betrag', 'wert', 'summe', 'total'],
+  currency: ['currency', 'währung', 'waehrung'],
+  fees: ['fees', 'fee', 'gebühren', 'gebuehren', 'provision'],
+  taxes: ['taxes', 'tax', 'steuern'],
+  notes: ['notes', 'notizen', 'bemerkung', 'kommentar'],
+  bank: ['bank', 'depot', 'broker'],
+};
+
+// Transaction type labels understood for user-defined column mappings
+const GENERIC_TRANSACTION_TYPES: Record<string, TransactionType | null> = {
+  buy: 'buy',
+  kauf: 'buy',
+  sparplan: 'buy',
+  sell: 'sell',
+  verkauf: 'sell',
+  dividend: 'dividend',
+  dividende: 'dividend',
+  distribution: 'dividend',
+  ausschüttung: 'dividend',
+  'transfer-in': 'transfer-in',
+  einbuchung: 'transfer-in',
+  'transfer-out': 'transfer-out',
+  ausbuchung: 'transfer-out',
+};
+
+/**
+ * Returns the profile with the given id (falls back to our own format)
+ */
+export function getImportProfile(id: string): ImportProfile {
+  return IMPORT_PROFILES.find((profile) => profile.id === id) ?? IMPORT_PROFILES[0];
+}
+
+/**
+ * Detects the import profile from the header row of a CSV file (null = unknown layout)
+ */
+export function detectImportProfile(headers: string[]): ImportProfile | null {
+  const normalized = headers.map((header) => header.toLowerCase());
+  return (
+    IMPORT_PROFILES.find((profile) =>
+      profile.detectHeaders.every((header) => normalized.includes(header.toLowerCase()))
+    ) ?? null
+  );
+}
+
+/**
+ * Checks whether all columns of a saved mapping exist in the header row
+ */
+export function mappingMatchesHeaders(mapping: ColumnMapping, headers: string[]): boolean {
+  const normalized = headers.map((header) => header.toLowerCase());
+  const mapped = Object.values(mapping.columns).filter((header): header is string => !!header);
+  return mapped.length > 0 && mapped.every((header) => normalized.includes(header.toLowerCase()));
+}
+
+/**
+ * Prefills a column mapping from common header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const columns: Partial<Record<ImportField, string>> = {};
+  const used = new Set<string>();
+
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [ImportField, string[]][]) {
+    const header = headers.find((h) => !used.has(h) && aliases.includes(h.trim().toLowerCase()));
+    if (header) {
+      columns[field] = header;
+      used.add(header);
+    }
+  }
+
+  return { columns, decimalSeparator: ',', dateFormat: 'DD.MM.YYYY' };
+}
+
+/**
+ * Builds an import profile from a user-defined column mapping
+ */
+export function mappingToProfile(mapping: ColumnMapping, name = 'Eigene Zuordnung'): ImportProfile {
+  const columns: Partial<Record<ImportField, string[]>> = {};
+  for (const [field, header] of Object.entries(mapping.columns) as [ImportField, string | undefined][]) {
+    if (header) columns[field] = [header];
+  }
+
+  return {
+    id: CUSTOM_PROFILE_ID,
+    name,
+    detectHeaders: [],
+    columns,
+    decimalSeparator: mapping.decimalSeparator,
+    dateFormat: mapping.dateFormat,
+    transactionTypes: GENERIC_TRANSACTION_TYPES,
+  };
+}
+
+/**
+ * Converts a number in the given notation to our format ("1.234,56" -> "1234.56")
+ * Values that aren't numbers are returned as is, so the validation reports them
+ */
+export function normalizeNumber(value: string, decimalSeparator: ',' | '.'): string {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  const number = parseNumber(trimmed, decimalSeparator === ',' ? 'de-DE' : 'en-US');
+  return isNaN(number) ? trimmed : number.toString();
+}
+
+/**
+ * Converts a date in the given format to YYYY-MM-DD (returns the input if it doesn't match)
+ */
+export function normalizeDate(value: string, format: ImportDateFormat): string {
+  const date = parseDate(value, format);
+  return date ? date.toISOString().split('T')[0] : value.trim();
+}
+
+/**
+ * Reads the first non-empty value of the candidate columns of a field
+ */
+function getField(row: Record<string, string>, profile: ImportProfile, field: ImportField): string {
+  const candidates = profile.columns[field] ?? [];
+  for (const candidate of candidates) {
+    const key = Object.keys(row).find((header) => header.toLowerCase() === candidate.toLowerCase());
+    if (key && row[key]?.trim()) {
+      return row[key].trim();
+    }
+  }
+  return '';
+}
+
+/**
+ * Maps a single broker row to a row in our format
+ */
+function mapProfileRow(row: Record<string, string>, profile: ImportProfile): Record<string, string> | null {
+  if (profile.skipRow?.(row)) return null;
+
+  // Transaction type (rows without type column are holdings, i.e. buys)
+  // Unknown labels are kept, so the row shows up as an error instead of vanishing
+  const rawType = getField(row, profile, 'type');
+  let type: string = 'buy';
+  if (rawType && profile.transactionTypes) {
+    const mapped = Object.entries(profile.transactionTypes).find(
+      ([label]) => label.toLowerCase() === rawType.toLowerCase()
+    );
+    if (mapped?.[1] === null) return null;
+    type = mapped ? mapped[1] : rawType;
+  }
+
+  const quantity = normalizeNumber(getField(row, profile, 'quantity'), profile.decimalSeparator);
+  let price = normalizeNumber(getField(row, profile, 'price'), profile.decimalSeparator);
+
+  // Price from the total amount if the broker doesn't export a price per share
+  // (quantities of sells and outgoing transfers may be negative)
+  const amount = normalizeNumber(getField(row, profile, 'amount'), profile.decimalSeparator);
+  let currency = getField(row, profile, 'currency');
+  if (!price && amount && Math.abs(parseFloat(quantity)) > 0) {
+    price = (Math.abs(parseFloat(amount)) / Math.abs(parseFloat(quantity))).toString();
+    currency = profile.amountCurrency ?? currency;
+  }
+
+  const isin = getField(row, profile, 'isin').toUpperCase();
+  const name = getField(row, profile, 'name');
+
+  return {
+    type,
+    isin,
+    // Broker exports rarely contain tickers, the ISIN is used until the ticker is resolved
+    ticker: getField(row, profile, 'ticker') || isin,
+    assetType: getField(row, profile, 'assetType').toLowerCase() || 'stock',
+    purchaseDate: normalizeDate(getField(row, profile, 'date'), profile.dateFormat),
+    quantity: quantity.replace(/^-/, ''),
+    purchasePrice: price.replace(/^-/, ''),
+    currency: currency || 'EUR',
+    fees: normalizeNumber(getField(row, profile, 'fees'), profile.decimalSeparator).replace(/^-/, ''),
+    taxes: normalizeNumber(getField(row, profile, 'taxes'), profile.decimalSeparator).replace(/^-/, ''),
+    notes: getField(row, profile, 'notes') || name,
+    bank: getField(row, profile, 'bank'),
+  };
+}
+
+/**
+ * Parses a broker CSV file into rows of our format
+ * Row numbers refer to the original file, irrelevant rows are returned as null
+ */
+export function applyImportProfile(csvContent: string, profile: ImportProfile): ProfileRow[] {
+  const rows = csvToArray(csvContent);
+
+  return rows.map((row, index) => ({
+    rowNumber: index + 2, // +2 because: +1 for header, +1 for 1-based indexing
+    row: profile.id === DEFAULT_PROFILE_ID ? row : mapProfileRow(row, profile),
+  }));
+}
@@ -1,17 +1,37 @@
-import { Position } from './db';
-import { arrayToCSV, csvToArray, downloadFile } from './csv-utils';
+import { AssetType, Bank, FundType, Position, Transaction, TransactionType } from './db';
+import { arrayToCSV, CSVRowEdits, downloadFile } from './csv-utils';
+import { ASSET_TYPES, isInvestmentFund, isValidCurrency } from './instruments';
+import { DEFAULT_PROFILE_ID, IMPORT_PROFILES, ImportProfile, applyImportProfile } from './csv-import-profiles';
+import {
+  DATE_FORMAT_LABELS,
+  DEFAULT_IMPORT_FORMATS,
+  detectImportFormats,
+  ImportFormats,
+  parseDate,
+  parseNumber
+} from './import-formats';
 
 export interface PositionImportRow extends Omit<Position, 'id'> {
   _rowNumber: number;
+  _type: TransactionType; // Buys become positions, everything else a ledger transaction
+  _bank?: string; // Name from the optional bank column, the row is imported into this bank
+  _raw: Record<string, string>; // Row in our format (including edits), shown in the editable preview
   _error?: string;
+  _excluded?: boolean; // Excluded from the import by the user
 }
 
 export interface PositionParseResult {
   success: Omit<Position, 'id'>[];
+  transactions: Omit<Transaction, 'id'>[]; // Sells, dividends and transfers of broker exports
   errors: { row: number; error: string }[];
   allRows: PositionImportRow[];
+  skipped: number; // Rows not relevant for the depot (e.g. cash deposits)
+  formats: ImportFormats; // Number and date format the file was read with
+  warnings: string[]; // Ambiguous formats
 }
 
+const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'transfer-in', 'transfer-out', 'dividend'];
+
 const POSITION_CSV_HEADERS = [
   'isin',
   'ticker',
@@ -20,9 +40,15 @@ const POSITION_CSV_HEADERS = [
   'quantity',
   'purchasePrice',
   'currency',
-  'notes'
+  'notes',
+  'fundType'
 ];
 
+// Export of all banks, the bank column assigns the rows when importing
+const ALL_BANKS_CSV_HEADERS = ['bank', ...POSITION_CSV_HEADERS];
+
+const FUND_TYPES: FundType[] = ['equity', 'mixed', 'real-estate', 'real-estate-foreign', 'other'];
+
 /**
  * Downloads example position CSV file
  */
@@ -36,7 +62,8 @@ export function downloadExamplePositionCSV() {
       quantity: '10',
       purchasePrice: '185.50',
       currency: 'USD',
-      notes: 'Tech-Aktie'
+      notes: 'Tech-Aktie',
+      fundType: ''
     },
     {
       isin: 'IE00B4L5Y983',
@@ -46,7 +73,19 @@ export function downloadExamplePositionCSV() {
       quantity: '50',
       purchasePrice: '78.25',
       currency: 'EUR',
-      notes: 'MSCI World ETF'
+      notes: 'MSCI World ETF',
+      fundType: 'equity'
+    },
+    {
+      isin: 'GB00BH4HKS39',
+      ticker: 'VOD.L',
+      assetType: 'stock',
+      purchaseDate: '2024-03-01',
+      quantity: '500',
+      purchasePrice: '68.50',
+      currency: 'GBX',
+      notes: 'Kurs in Pence',
+      fundType: ''
     }
   ];
 
@@ -55,15 +94,10 @@ export function downloadExamplePositionCSV() {
 }
 
 /**
- * Exports all positions of a bank to CSV and downloads it
+ * Converts a position to a CSV row
  */
-export function exportPositionsToCSV(positions: Position[], bankName: string) {
-  if (positions.length === 0) {
-    alert('Keine Positionen zum Exportieren vorhanden');
-    return;
-  }
-
-  const positionsForExport = positions.map(pos => ({
+function toExportRow(pos: Position) {
+  return {
     isin: pos.isin,
     ticker: pos.ticker,
     assetType: pos.assetType,
@@ -73,22 +107,53 @@ export function exportPositionsToCSV(positions: Position[], bankName: string) {
     quantity: pos.quantity,
     purchasePrice: pos.purchasePrice,
     currency: pos.currency,
-    notes: pos.notes || ''
-  }));
+    notes: pos.notes || '',
+    fundType: pos.fundType || ''
+  };
+}
 
-  const csv = arrayToCSV(positionsForExport, POSITION_CSV_HEADERS);
+/**
+ * Exports all positions of a bank to CSV and downloads it
+ */
+export function exportPositionsToCSV(positions: Position[], bankName: string) {
+  if (positions.length === 0) {
+    alert('Keine Positionen zum Exportieren vorhanden');
+    return;
+  }
+
+  const csv = arrayToCSV(positions.map(toExportRow), POSITION_CSV_HEADERS);
   const timestamp = new Date().toISOString().split('T')[0];
   const safeBankName = bankName.replace(/[^a-zA-Z0-9]/g, '-');
   downloadFile(csv, `positionen-${safeBankName}-${timestamp}.csv`);
 }
 
+/**
+ * Exports the positions of all banks to one CSV (with bank column) and downloads it
+ */
+export function exportAllPositionsToCSV(banks: Bank[], positions: Position[]) {
+  const bankNames = new Map(banks.map((bank) => [bank.id, bank.name]));
+  const positionsForExport = positions
+    .filter((pos) => bankNames.has(pos.bankId))
+    .map((pos) => ({ bank: bankNames.get(pos.bankId), ...toExportRow(pos) }));
+
+  if (positionsForExport.length === 0) {
+    alert('Keine Positionen zum Exportieren vorhanden');
+    return;
+  }
+
+  const csv = arrayToCSV(positionsForExport, ALL_BANKS_CSV_HEADERS);
+  const timestamp = new Date().toISOString().split('T')[0];
+  downloadFile(csv, `positionen-alle-banken-${timestamp}.csv`);
+}
+
 /**
  * Parses a single position row from CSV
  */
 function parsePositionRow(
   row: Record<string, string>,
   rowIndex: number,
-  bankId: number
+  bankId: number,
+  formats: ImportFormats
 ): Omit<Position, 'id'> {
   // Validate required fields
   if (!row.isin?.trim()) {
@@ -114,68 +179,162 @@ function parsePositionRow(
   }
 
   // Validate assetType
-  const assetType = row.assetType.trim().toLowerCase();
-  if (!['stock', 'etf', 'bond'].includes(assetType)) {
-    throw new Error("Asset-Typ muss 'stock', 'etf' oder 'bond' sein");
+  const assetType = row.assetType.trim().toLowerCase() as AssetType;
+  if (!ASSET_TYPES.includes(assetType)) {
+    throw new Error(`Asset-Typ muss einer von ${ASSET_TYPES.map(t => `'${t}'`).join(', ')} sein`);
   }
 
-  // Validate currency
-  const currency = row.currency.trim().toUpperCase();
-  if (!['EUR', 'USD'].includes(currency)) {
-    throw new Error("Währung muss 'EUR' oder 'USD' sein");
+  // Validate optional fund type (investment funds only, defaults to equity fund)
+  let fundType: FundType | undefined;
+  if (isInvestmentFund(assetType)) {
+    fundType = (row.fundType?.trim().toLowerCase() || 'equity') as FundType;
+    if (!FUND_TYPES.includes(fundType)) {
+      throw new Error(`Fondsart muss eine von ${FUND_TYPES.map(t => `'${t}'`).join(', ')} sein`);
+    }
+  }
+
+  // Validate currency (ISO 4217, GBp is accepted as GBX)
+  const currency = row.currency.trim() === 'GBp' ? 'GBX' : row.currency.trim().toUpperCase();
+  if (!isValidCurrency(currency)) {
+    throw new Error(`Währung '${currency}' ist kein gültiger ISO-4217-Code`);
   }
 
   // Parse numbers
-  const quantity = parseFloat(row.quantity.trim());
+  const quantity = parseNumber(row.quantity, formats.numberFormat);
   if (isNaN(quantity) || quantity <= 0) {
     throw new Error('Anzahl muss eine positive Zahl sein');
   }
 
-  const purchasePrice = parseFloat(row.purchasePrice.trim());
+  const purchasePrice = parseNumber(row.purchasePrice, formats.numberFormat);
   if (isNaN(purchasePrice) || purchasePrice <= 0) {
     throw new Error('Kaufpreis muss eine positive Zahl sein');
   }
 
   // Parse date
-  const purchaseDate = new Date(row.purchaseDate.trim());
-  if (isNaN(purchaseDate.getTime())) {
-    throw new Error('Kaufdatum hat ungültiges Format (erwartetes Format: YYYY-MM-DD)');
+  const purchaseDate = parseDate(row.purchaseDate, formats.dateFormat);
+  if (!purchaseDate) {
+    throw new Error(`Kaufdatum hat ungültiges Format (erwartetes Format: ${DATE_FORMAT_LABELS[formats.dateFormat]})`);
   }
 
   return {
     bankId,
     isin: row.isin.trim().toUpperCase(),
     ticker: row.ticker.trim().toUpperCase(),
-    assetType: assetType as 'stock' | 'etf' | 'bond',
+    assetType,
+    fundType,
     purchaseDate,
     quantity,
     purchasePrice,
-    currency: currency as 'EUR' | 'USD',
+    currency,
     notes: row.notes?.trim() || undefined,
     createdAt: new Date()
   };
 }
 
+/**
+ * Parses an optional fee/tax amount
+ */
+function parseAmount(value: string | undefined, label: string, formats: ImportFormats): number {
+  if (!value?.trim()) return 0;
+  const amount = parseNumber(value, formats.numberFormat);
+  if (isNaN(amount) || amount < 0) {
+    throw new Error(`${label} muss eine positive Zahl sein`);
+  }
+  return amount;
+}
+
+/**
+ * Converts a parsed non-buy row into a ledger transaction
+ */
+function toTransaction(
+  position: Omit<Position, 'id'>,
+  type: TransactionType,
+  row: Record<string, string>,
+  formats: ImportFormats
+): Omit<Transaction, 'id'> {
+  return {
+    bankId: position.bankId,
+    isin: position.isin,
+    ticker: position.ticker,
+    type,
+    date: position.purchaseDate,
+    quantity: position.quantity,
+    price: position.purchasePrice,
+    currency: position.currency,
+    fees: parseAmount(row.fees, 'Gebühren', formats),
+    taxes: parseAmount(row.taxes, 'Steuern', formats),
+    notes: position.notes,
+    createdAt: new Date()
+  };
+}
+
 /**
  * Parses CSV and returns result with successful positions, errors, and all rows for preview
+ * Broker exports are converted to our format by the given import profile first
+ * Files in our own format may use German or English notation, which is detected unless given
+ * Edited values replace those of the converted row, excluded rows are validated but not imported
+ * Rows of a bank column belong to that bank (bankId is set when importing), the others to the given bank
  */
 export function parsePositionCSV(
   csvContent: string,
-  bankId: number
+  bankId: number | null,
+  profile: ImportProfile = IMPORT_PROFILES[0],
+  formatOverrides: Partial<ImportFormats> = {},
+  rowEdits: CSVRowEdits = {},
+  excludedRows: number[] = []
 ): PositionParseResult {
-  const rows = csvToArray(csvContent);
   const success: Omit<Position, 'id'>[] = [];
+  const transactions: Omit<Transaction, 'id'>[] = [];
   const errors: { row: number; error: string }[] = [];
   const allRows: PositionImportRow[] = [];
+  let skipped = 0;
 
-  rows.forEach((row, index) => {
-    const rowNumber = index + 2; // +2 because: +1 for header, +1 for 1-based indexing
+  const profileRows = applyImportProfile(csvContent, profile).map(({ rowNumber, row }) => ({
+    rowNumber,
+    row: row && { ...row, ...rowEdits[rowNumber] }
+  }));
+
+  // Broker profiles already normalize numbers and dates to our notation
+  const { warnings, ...formats } = profile.id === DEFAULT_PROFILE_ID
+    ? detectImportFormats(
+        profileRows.flatMap(({ row }) => (row ? [row] : [])),
+        ['quantity', 'purchasePrice', 'fees', 'taxes'],
+        ['purchaseDate'],
+        formatOverrides
+      )
+    : { ...DEFAULT_IMPORT_FORMATS, warnings: [] };
+
+  profileRows.forEach(({ rowNumber, row }) => {
+    if (!row) {
+      skipped++;
+      return;
+    }
+
+    const type = (row.type?.trim() || 'buy') as TransactionType;
     try {
-      const position = parsePositionRow(row, rowNumber, bankId);
-      success.push(position);
+      if (!TRANSACTION_TYPES.includes(type)) {
+        throw new Error(`Unbekannter Transaktionstyp '${type}'`);
+      }
+
+      const bank = row.bank?.trim() || undefined;
+      if (!bank && bankId === null) {
+        throw new Error('Bank ist ein Pflichtfeld (Spalte "bank")');
+      }
+
+      const position = parsePositionRow(row, rowNumber, bankId ?? 0, formats);
+      const excluded = excludedRows.includes(rowNumber);
+      if (!excluded && type === 'buy') {
+        success.push(position);
+      } else if (!excluded) {
+        transactions.push(toTransaction(position, type, row, formats));
+      }
       allRows.push({
         ...position,
-        _rowNumber: rowNumber
+        _rowNumber: rowNumber,
+        _type: type,
+        _bank: bank,
+        _raw: row,
+        _excluded: excluded || undefined
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unbekannter Fehler';
@@ -185,21 +344,24 @@ export function parsePositionCSV(
       });
       // Create partial row for preview (with raw values)
       allRows.push({
-        bankId,
+        bankId: bankId ?? 0,
         isin: row.isin?.trim() || '',
         ticker: row.ticker?.trim() || '',
         assetType: (row.assetType?.trim().toLowerCase() as any) || 'stock',
-        purchaseDate: row.purchaseDate ? new Date(row.purchaseDate) : new Date(),
-        quantity: parseFloat(row.quantity) || 0,
-        purchasePrice: parseFloat(row.purchasePrice) || 0,
+        purchaseDate: parseDate(row.purchaseDate ?? '', formats.dateFormat) ?? new Date(),
+        quantity: parseNumber(row.quantity ?? '', formats.numberFormat) || 0,
+        purchasePrice: parseNumber(row.purchasePrice ?? '', formats.numberFormat) || 0,
         currency: (row.currency?.trim().toUpperCase() as any) || 'EUR',
         notes: row.notes?.trim(),
         createdAt: new Date(),
         _rowNumber: rowNumber,
+        _type: type,
+        _bank: row.bank?.trim() || undefined,
+        _raw: row,
         _error: errorMessage
       });
     }
   });
 
-  return { success, errors, allRows };
+  return { success, transactions, errors, allRows, skipped, formats, warnings };
 }
@@ -0,0 +1,65 @@
+import { BankTaxReport, sumTaxReports } from './tax';
+import { arrayToCSV, downloadFile } from './csv-utils';
+
+const TAX_REPORT_CSV_HEADERS = [
+  'year',
+  'bank',
+  'stockGains',
+  'stockLosses',
+  'otherGains',
+  'otherLosses',
+  'dividends',
+  'partialExemption',
+  'stockLossPotCarriedIn',
+  'generalLossPotCarriedIn',
+  'incomeAfterLosses',
+  'freistellungsauftrag',
+  'usedAllowance',
+  'taxableIncome',
+  'abgeltungsteuer',
+  'soli',
+  'kirchensteuer',
+  'totalTax',
+  'taxesWithheld',
+  'stockLossPotCarriedOut',
+  'generalLossPotCarriedOut'
+];
+
+/**
+ * Exports the tax report of all banks (plus totals row) to CSV and downloads it
+ */
+export function exportTaxReportToCSV(reports: BankTaxReport[], year: number) {
+  if (reports.length === 0) {
+    alert('Keine Daten zum Exportieren vorhanden');
+    return;
+  }
+
+  const amount = (value: number) => value.toFixed(2);
+
+  const rows = [...reports, sumTaxReports(reports, year)].map(report => ({
+    year: report.year,
+    bank: report.bankName,
+    stockGains: amount(report.stockGains),
+    stockLosses: amount(report.stockLosses),
+    otherGains: amount(report.otherGains),
+    otherLosses: amount(report.otherLosses),
+    dividends: amount(report.dividends),
+    partialExemption: amount(report.partialExemption),
+    stockLossPotCarriedIn: amount(report.lossPotsCarriedIn.stock),
+    generalLossPotCarriedIn: amount(report.lossPotsCarriedIn.general),
+    incomeAfterLosses: amount(report.incomeAfterLosses),
+    freistellungsauftrag: amount(report.freistellungsauftrag),
+    usedAllowance: amount(report.usedAllowance),
+    taxableIncome: amount(report.taxableIncome),
+    abgeltungsteuer: amount(report.abgeltungsteuer),
+    soli: amount(report.soli),
+    kirchensteuer: amount(report.kirchensteuer),
+    totalTax: amount(report.totalTax),
+    taxesWithheld: amount(report.taxesWithheld),
+    stockLossPotCarriedOut: amount(report.lossPotsCarriedOut.stock),
+    generalLossPotCarriedOut: amount(report.lossPotsCarriedOut.general)
+  }));
+
+  const csv = arrayToCSV(rows, TAX_REPORT_CSV_HEADERS);
+  downloadFile(csv, `steuerreport-${year}.csv`);
+}
@@ -11,33 +11,96 @@ export interface ParseResult<T> {
 }
 
 /**
- * Detects the delimiter used in a CSV file (comma or semicolon)
+ * Values corrected in an import preview (row number -> field -> raw value)
  */
-function detectDelimiter(csvString: string): ',' | ';' {
-  const firstLine = csvString.split('\n')[0];
-  if (!firstLine) return ',';
+export type CSVRowEdits = Record<number, Record<string, string>>;
 
-  let commaCount = 0;
-  let semicolonCount = 0;
+type CSVDelimiter = ',' | ';' | '\t';
+
+/**
+ * Removes a leading byte order mark (otherwise it becomes part of the first header)
+ */
+function stripBOM(csvString: string): string {
+  return csvString.charCodeAt(0) === 0xfeff ? csvString.slice(1) : csvString;
+}
+
+/**
+ * Streams the records of a CSV string (RFC 4180)
+ * Quoted fields may contain delimiters, escaped quotes ("") and line breaks; LF, CRLF and CR end a record
+ */
+function* iterateCSVRecords(csvString: string, delimiter: CSVDelimiter): Generator<string[]> {
+  let record: string[] = [];
+  let field = '';
   let insideQuotes = false;
+  let i = 0;
 
-  for (let i = 0; i < firstLine.length; i++) {
-    const char = firstLine[i];
+  while (i < csvString.length) {
+    const char = csvString[i];
 
-    if (char === '"') {
-      if (insideQuotes && firstLine[i + 1] === '"') {
-        i++; // Skip escaped quote
+    if (insideQuotes) {
+      if (char === '"') {
+        if (csvString[i + 1] === '"') {
+          field += '"'; // Escaped quote
+          i++;
+        } else {
+          insideQuotes = false;
+        }
       } else {
-        insideQuotes = !insideQuotes;
+        field += char;
       }
-    } else if (!insideQuotes) {
-      if (char === ',') commaCount++;
-      else if (char === ';') semicolonCount++;
+    } else if (char === '"') {
+      insideQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csvString[i + 1] === '\n') i++;
+      record.push(field);
+      yield record;
+      record = [];
+      field = '';
+    } else {
+      field += char;
     }
+    i++;
   }
 
-  // Use semicolon if there are more semicolons than commas
-  return semicolonCount > commaCount ? ';' : ',';
+  // Last record without trailing line break
+  if (field || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+/**
+ * Detects the delimiter used in a CSV file (comma, semicolon or tab) from its header row,
+ * i.e. the first line with a value (leading empty lines and lines of delimiters only are skipped)
+ */
+function detectDelimiter(csvString: string): CSVDelimiter {
+  let counts: Record<CSVDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let insideQuotes = false;
+  let hasValue = false;
+
+  for (const char of csvString) {
+    if (char === '"') {
+      insideQuotes = !insideQuotes; // Escaped quotes toggle twice
+    } else if (insideQuotes) {
+      if (!/\s/.test(char)) hasValue = true;
+    } else if (char === '\n' || char === '\r') {
+      if (hasValue) break;
+      counts = { ',': 0, ';': 0, '\t': 0 };
+    } else if (char in counts) {
+      counts[char as CSVDelimiter]++;
+    } else {
+      if (!/\s/.test(char)) hasValue = true;
+    }
+  }
+
+  // Comma unless another delimiter occurs more often
+  return (Object.keys(counts) as CSVDelimiter[]).reduce(
+    (best, delimiter) => (counts[delimiter] > counts[best] ? delimiter : best),
+    ','
+  );
 }
 
 /**
@@ -58,9 +121,9 @@ export function arrayToCSV<T extends Record<string, any>>(
         if (value instanceof Date) {
           return value.toISOString().split('T')[0];
         }
-        // Escape values containing commas or quotes
+        // Quote values containing delimiters, quotes or line breaks (csvToArray reads them back)
         const stringValue = String(value ?? '');
-        if (stringValue.includes(',') || stringValue.includes('"')) {
+        if (/[,;\t"\r\n]/.test(stringValue)) {
           return `"${stringValue.replace(/"/g, '""')}"`;
         }
         return stringValue;
@@ -72,84 +135,42 @@ export function arrayToCSV<T extends Record<string, any>>(
 }
 
 /**
- * Parses CSV header row with specified delimiter
+ * Returns the header row of a CSV string
  */
-function parseCSVHeader(line: string, delimiter: ',' | ';'): string[] {
-  const headers: string[] = [];
-  let currentValue = '';
-  let insideQuotes = false;
-
-  for (let j = 0; j < line.length; j++) {
-    const char = line[j];
-
-    if (char === '"') {
-      if (insideQuotes && line[j + 1] === '"') {
-        currentValue += '"';
-        j++;
-      } else {
-        insideQuotes = !insideQuotes;
-      }
-    } else if (char === delimiter && !insideQuotes) {
-      headers.push(currentValue.trim());
-      currentValue = '';
-    } else {
-      currentValue += char;
+export function getCSVHeaders(csvString: string): string[] {
+  const content = stripBOM(csvString);
+  for (const record of iterateCSVRecords(content, detectDelimiter(content))) {
+    if (record.some((value) => value.trim())) {
+      return record.map((header) => header.trim());
     }
   }
-  headers.push(currentValue.trim());
-  return headers;
+  return [];
 }
 
 /**
  * Parses CSV string to array of objects
- * Automatically detects delimiter (comma or semicolon)
+ * Automatically detects delimiter (comma, semicolon or tab)
  */
 export function csvToArray(csvString: string): Record<string, string>[] {
-  const lines = csvString.trim().split('\n');
-  if (lines.length <= 1) return []; // Need at least header + 1 data row
-
-  // Detect delimiter from first line
-  const delimiter = detectDelimiter(csvString);
+  const content = stripBOM(csvString);
+  const delimiter = detectDelimiter(content);
 
-  // Parse header row properly with detected delimiter
-  const headers = parseCSVHeader(lines[0], delimiter);
+  let headers: string[] | null = null;
   const result: Record<string, string>[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) continue;
-
-    const values: string[] = [];
-    let currentValue = '';
-    let insideQuotes = false;
-
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j];
+  for (const record of iterateCSVRecords(content, delimiter)) {
+    // Skip empty lines
+    if (!record.some((value) => value.trim())) continue;
 
-      if (char === '"') {
-        if (insideQuotes && line[j + 1] === '"') {
-          // Escaped quote
-          currentValue += '"';
-          j++;
-        } else {
-          // Toggle quote state
-          insideQuotes = !insideQuotes;
-        }
-      } else if (char === delimiter && !insideQuotes) {
-        // End of value
-        values.push(currentValue.trim());
-        currentValue = '';
-      } else {
-        currentValue += char;
-      }
+    if (!headers) {
+      headers = record.map((header) => header.trim());
+      continue;
     }
-    // Push last value
-    values.push(currentValue.trim());
 
     // Create object from headers and values
     const obj: Record<string, string> = {};
     headers.forEach((header, index) => {
-      obj[header] = values[index] || '';
+      obj[header] = record[index]?.trim() || '';
     });
     result.push(obj);
   }
@@ -173,16 +194,30 @@ export function downloadFile(content: string, filename: string, mimeType: string
 }
 
 /**
- * Reads a file uploaded by user
+ * Detects the charset of a file from its bytes
+ * UTF-8 unless a BOM says otherwise or the bytes are no valid UTF-8 (German bank exports are often Windows-1252)
  */
-export function readFile(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      resolve(content);
-    };
-    reader.onerror = () => reject(new Error('Fehler beim Lesen der Datei'));
-    reader.readAsText(file);
-  });
+function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Reads a file uploaded by user (charset is detected, a BOM is removed)
+ */
+export async function readFile(file: File): Promise<string> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return stripBOM(new TextDecoder(detectEncoding(bytes)).decode(bytes));
+  } catch {
+    throw new Error('Fehler beim Lesen der Datei');
+  }
 }
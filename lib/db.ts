@@ -1,32 +1,111 @@
 import Dexie, { Table } from 'dexie';
+import type { ColumnMapping } from './csv-import-profiles';
+import { encryptionMiddleware } from './crypto';
 
 // Bank/Broker interface
 export interface Bank {
   id?: number;
   name: string;
   notes?: string;
+  freistellungsauftrag?: number; // Allowance (EUR) allocated to this bank per year
+  archivedAt?: Date; // Set while the bank is in the trash
   createdAt: Date;
 }
 
+// Asset classes of a position
+export type AssetType = 'stock' | 'etf' | 'fund' | 'bond' | 'certificate' | 'commodity' | 'crypto';
+
+// ISO 4217 currency code (GBX for prices quoted in pence)
+export type CurrencyCode = string;
+
+// Fund classification for the Teilfreistellung (§ 20 InvStG)
+export type FundType = 'equity' | 'mixed' | 'real-estate' | 'real-estate-foreign' | 'other';
+
 // Position interface
 export interface Position {
   id?: number;
   bankId: number;
   isin: string;
   ticker: string;
-  assetType: 'stock' | 'etf' | 'bond';
+  assetType: AssetType;
+  fundType?: FundType; // Only for investment funds (ETFs and funds)
   purchaseDate: Date;
   quantity: number;
   purchasePrice: number;
-  currency: 'EUR' | 'USD';
+  currency: CurrencyCode;
   notes?: string;
   createdAt: Date;
 }
 
+// Ledger transaction types
+export type TransactionType = 'buy' | 'sell' | 'transfer-in' | 'transfer-out' | 'dividend';
+
+// Transaction interface (single ledger entry)
+export interface Transaction {
+  id?: number;
+  bankId: number;
+  positionId?: number; // Set for the opening buy of a position
+  isin: string;
+  ticker: string;
+  type: TransactionType;
+  date: Date;
+  quantity: number;
+  price: number; // Price per share (transfers: original purchase price, dividends: gross dividend per share)
+  currency: CurrencyCode;
+  fees: number;
+  taxes: number;
+  notes?: string;
+  createdAt: Date;
+}
+
+/**
+ * Creates the opening buy transaction for a position
+ */
+export function createOpeningBuy(position: Position, positionId: number): Omit<Transaction, 'id'> {
+  return {
+    bankId: position.bankId,
+    positionId,
+    isin: position.isin,
+    ticker: position.ticker,
+    type: 'buy',
+    date: position.purchaseDate,
+    quantity: position.quantity,
+    price: position.purchasePrice,
+    currency: position.currency,
+    fees: 0,
+    taxes: 0,
+    createdAt: position.createdAt,
+  };
+}
+
+// Saved column mapping for the position CSV import
+export interface ImportTemplate extends ColumnMapping {
+  id?: number;
+  name: string;
+  createdAt: Date;
+}
+
+// Tables an import can change
+export type ImportBatchTable = 'banks' | 'positions' | 'transactions';
+
+// Import run, recorded with everything it changed so it can be undone
+export interface ImportBatch {
+  id?: number;
+  label: string;
+  bankId?: number; // Only for position imports
+  mode: 'overwrite' | 'append';
+  added: Partial<Record<ImportBatchTable, number[]>>; // Ids of the added rows
+  removed: { banks?: Bank[]; positions?: Position[]; transactions?: Transaction[] }; // Overwritten rows
+  createdAt: Date;
+}
+
 // Database class
 export class DepotsDatabase extends Dexie {
   banks!: Table<Bank>;
   positions!: Table<Position>;
+  transactions!: Table<Transaction>;
+  importTemplates!: Table<ImportTemplate>;
+  importBatches!: Table<ImportBatch>;
 
   constructor() {
     super('DepotsViewerDB');
@@ -35,6 +114,34 @@ export class DepotsDatabase extends Dexie {
       banks: '++id, name, createdAt',
       positions: '++id, bankId, isin, ticker, assetType, purchaseDate, currency, createdAt'
     });
+
+    // Version 2: transaction ledger, every existing position becomes an opening buy
+    this.version(2).stores({
+      transactions: '++id, bankId, positionId, isin, ticker, type, date, createdAt'
+    }).upgrade(async (tx) => {
+      const positions: Position[] = await tx.table('positions').toArray();
+      await tx.table('transactions').bulkAdd(
+        positions.map((position) => createOpeningBuy(position, position.id!))
+      );
+    });
+
+    // Version 3: saved column mappings for the CSV import
+    this.version(3).stores({
+      importTemplates: '++id, name, createdAt'
+    });
+
+    // Version 4: import history for undoing imports
+    this.version(4).stores({
+      importBatches: '++id, bankId, createdAt'
+    });
+
+    // Version 5: bank names are encrypted, an index on them would only sort ciphertext
+    this.version(5).stores({
+      banks: '++id, createdAt'
+    });
+
+    // Sensitive fields are encrypted while a passphrase is set (see ./encryption)
+    this.use(encryptionMiddleware);
   }
 }
 
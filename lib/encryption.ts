@@ -0,0 +1,130 @@
+import { db } from './db';
+import {
+  decryptText,
+  deriveKey,
+  ENCRYPTED_FIELDS,
+  encryptText,
+  generateSalt,
+  getEncryptionKey,
+  PBKDF2_ITERATIONS,
+  setEncryptionKey,
+  subscribeEncryptionKey,
+} from './crypto';
+
+/**
+ * Passphrase-protected mode of the database
+ * Salt and a verifier are kept in localStorage, the derived key only in memory
+ */
+
+export interface EncryptionConfig {
+  salt: string;
+  iterations: number;
+  verifier: string; // Known text encrypted with the key, used to check the passphrase
+}
+
+export type LockState = 'disabled' | 'locked' | 'unlocked';
+
+const CONFIG_KEY = 'encryption_config';
+const VERIFIER_TEXT = 'depots-viewer';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export function getEncryptionConfig(): EncryptionConfig | null {
+  const stored = localStorage.getItem(CONFIG_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function getLockState(): LockState {
+  if (!getEncryptionConfig()) return 'disabled';
+  return getEncryptionKey() ? 'unlocked' : 'locked';
+}
+
+export const subscribeLockState = subscribeEncryptionKey;
+
+/**
+ * Unlocks the database, returns false if the passphrase is wrong
+ */
+export async function unlock(passphrase: string): Promise<boolean> {
+  const config = getEncryptionConfig();
+  if (!config) return true;
+
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    if ((await decryptText(config.verifier, key)) !== VERIFIER_TEXT) return false;
+  } catch {
+    return false;
+  }
+
+  setEncryptionKey(key);
+  return true;
+}
+
+/**
+ * Locks the database by forgetting the key
+ */
+export function lock() {
+  setEncryptionKey(null);
+}
+
+/**
+ * Rewrites all rows of the encrypted tables (the middleware encrypts them if a key is set)
+ */
+async function rewriteEncryptedTables(beforeWrite: () => void) {
+  const tables = Object.keys(ENCRYPTED_FIELDS).map((name) => db.table(name));
+
+  await db.transaction('rw', tables, async () => {
+    const rows = await Promise.all(tables.map((table) => table.toArray()));
+    beforeWrite();
+    for (let i = 0; i < tables.length; i++) {
+      await tables[i].bulkPut(rows[i]);
+    }
+  });
+}
+
+/**
+ * Enables encryption with the given passphrase and encrypts all existing data
+ */
+export async function enableEncryption(passphrase: string): Promise<void> {
+  if (getEncryptionConfig()) {
+    throw new Error('Die Verschlüsselung ist bereits aktiviert');
+  }
+
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt);
+  const config: EncryptionConfig = {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptText(VERIFIER_TEXT, key),
+  };
+
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  try {
+    await rewriteEncryptedTables(() => setEncryptionKey(key));
+  } catch (error) {
+    // The transaction was rolled back, so the data is still in plaintext
+    localStorage.removeItem(CONFIG_KEY);
+    setEncryptionKey(null);
+    throw error;
+  }
+}
+
+/**
+ * Disables encryption and stores all data in plaintext again (database must be unlocked)
+ */
+export async function disableEncryption(): Promise<void> {
+  const key = getEncryptionKey();
+  const config = getEncryptionConfig();
+  if (!key || !config) {
+    throw new Error('Die Datenbank ist gesperrt');
+  }
+
+  localStorage.removeItem(CONFIG_KEY);
+  try {
+    await rewriteEncryptedTables(() => setEncryptionKey(null));
+  } catch (error) {
+    // The transaction was rolled back, so the data is still encrypted
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+    setEncryptionKey(key);
+    throw error;
+  }
+}
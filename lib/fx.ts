@@ -0,0 +1,84 @@
+/**
+ * Currency conversion helpers
+ * Rates are keyed by pair (e.g. USDEUR) and optionally by date for historical lookups
+ */
+
+export const BASE_CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF'] as const;
+export type BaseCurrency = (typeof BASE_CURRENCIES)[number];
+
+// Minor currency units quoted by exchanges (e.g. London prices in pence)
+const MINOR_UNITS: Record<string, { currency: string; factor: number }> = {
+  GBp: { currency: 'GBP', factor: 0.01 },
+  GBX: { currency: 'GBP', factor: 0.01 },
+  ZAc: { currency: 'ZAR', factor: 0.01 },
+  ILA: { currency: 'ILS', factor: 0.01 },
+};
+
+/**
+ * Maps minor currency units to their ISO currency (GBp/GBX -> GBP with factor 0.01)
+ */
+export function normalizeCurrency(currency: string): { currency: string; factor: number } {
+  return MINOR_UNITS[currency] ?? { currency: currency.toUpperCase(), factor: 1 };
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+export function toDateKey(date: Date | string): string {
+  const d = new Date(date);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Key of a rate in the rates map: USDEUR (current) or USDEUR@2024-01-15 (historical)
+ */
+export function getFxRateKey(from: string, to: string, date?: Date | string): string {
+  const pair = `${normalizeCurrency(from).currency}${normalizeCurrency(to).currency}`;
+  return date ? `${pair}@${toDateKey(date)}` : pair;
+}
+
+/**
+ * Fetches a (historical) FX rate from the API
+ */
+export async function fetchFxRate(from: string, to: string, date?: Date | string): Promise<number | null> {
+  const pair = getFxRateKey(from, to);
+  const query = date ? `?date=${toDateKey(date)}` : '';
+
+  try {
+    const response = await fetch(`/api/fx/${pair}${query}`);
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    const data = await response.json();
+    return data.rate ?? null;
+  } catch (error) {
+    console.error(`Failed to fetch FX rate for ${pair}${query}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Converts an amount using the given rates
+ * Falls back from the historical to the current rate unless `strict` (e.g. for tax figures);
+ * returns undefined if no rate is known
+ */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number>,
+  date?: Date | string,
+  strict = false
+): number | undefined {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  const value = amount * source.factor / target.factor;
+
+  if (source.currency === target.currency) return value;
+
+  const rate = date
+    ? rates[getFxRateKey(source.currency, target.currency, date)] || (!strict && rates[getFxRateKey(source.currency, target.currency)])
+    : rates[getFxRateKey(source.currency, target.currency)];
+
+  return rate ? value * rate : undefined;
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getLockState, LockState, subscribeLockState } from '@/lib/encryption';
+
+/**
+ * Lock state of the encrypted database ('pending' until rendered in the browser)
+ */
+export function useEncryptionLock(): LockState | 'pending' {
+  return useSyncExternalStore(subscribeLockState, getLockState, () => 'pending');
+}
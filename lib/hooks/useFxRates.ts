@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  BASE_CURRENCIES,
+  BaseCurrency,
+  convertCurrency,
+  fetchFxRate,
+  getFxRateKey,
+  normalizeCurrency,
+} from '@/lib/fx';
+
+export interface FxRateRequest {
+  currency: string;
+  date?: Date | string;
+}
+
+interface CachedRates {
+  rates: Record<string, number>;
+  timestamp: number;
+}
+
+const BASE_CURRENCY_KEY = 'base_currency';
+const STORAGE_KEY = 'fx_rates_cache';
+const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+const RETRY_AFTER = 5 * 60 * 1000; // Failed rates are requested again after 5 minutes
+
+/**
+ * FX rates into the user's base currency, or into a fixed currency (e.g. EUR for the tax report)
+ */
+export function useFxRates(fixedCurrency?: BaseCurrency) {
+  const [selectedCurrency, setBaseCurrencyState] = useState<BaseCurrency>('EUR');
+  const baseCurrency = fixedCurrency ?? selectedCurrency;
+  const [rates, setRates] = useState<Record<string, number>>({});
+  const [isLoadingRates, setIsLoadingRates] = useState(false);
+  // Time of the last request per rate key, so pending and failed rates are not requested on every change
+  const requestedAt = useRef(new Map<string, number>());
+
+  // Load base currency (localStorage) and cached rates (sessionStorage) on mount
+  useEffect(() => {
+    const storedCurrency = localStorage.getItem(BASE_CURRENCY_KEY) as BaseCurrency | null;
+    if (storedCurrency && BASE_CURRENCIES.includes(storedCurrency)) {
+      setBaseCurrencyState(storedCurrency);
+    }
+
+    try {
+      const cached = sessionStorage.getItem(STORAGE_KEY);
+      if (cached) {
+        const data: CachedRates = JSON.parse(cached);
+        if (Date.now() - data.timestamp < CACHE_DURATION) {
+          setRates(data.rates);
+        } else {
+          sessionStorage.removeItem(STORAGE_KEY);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load cached FX rates:', error);
+    }
+  }, []);
+
+  // Save rates to sessionStorage whenever they change
+  useEffect(() => {
+    if (Object.keys(rates).length > 0) {
+      try {
+        const data: CachedRates = { rates, timestamp: Date.now() };
+        sessionStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      } catch (error) {
+        console.error('Failed to cache FX rates:', error);
+      }
+    }
+  }, [rates]);
+
+  const setBaseCurrency = (currency: BaseCurrency) => {
+    localStorage.setItem(BASE_CURRENCY_KEY, currency);
+    setBaseCurrencyState(currency);
+  };
+
+  /**
+   * Fetches all missing rates for converting the requested currencies into the base currency
+   * Current rates are always fetched as fallback for historical ones
+   */
+  const fetchFxRates = useCallback(async (requests: FxRateRequest[]) => {
+    const now = Date.now();
+    const missing = new Map<string, FxRateRequest>();
+    requests.forEach((request) => {
+      const currency = normalizeCurrency(request.currency).currency;
+      if (currency === baseCurrency) return;
+
+      [{ currency }, ...(request.date ? [{ currency, date: request.date }] : [])].forEach((entry) => {
+        const key = getFxRateKey(entry.currency, baseCurrency, entry.date);
+        const lastRequest = requestedAt.current.get(key);
+        if (rates[key] === undefined && !missing.has(key) && (lastRequest === undefined || now - lastRequest > RETRY_AFTER)) {
+          missing.set(key, entry);
+        }
+      });
+    });
+
+    if (missing.size === 0) return;
+
+    missing.forEach((_, key) => requestedAt.current.set(key, now));
+    setIsLoadingRates(true);
+
+    try {
+      const results = await Promise.all(
+        Array.from(missing.entries()).map(async ([key, { currency, date }]) => ({
+          key,
+          rate: await fetchFxRate(currency, baseCurrency, date),
+        }))
+      );
+
+      setRates((prev) => {
+        const next = { ...prev };
+        results.forEach(({ key, rate }) => {
+          if (rate) next[key] = rate;
+        });
+        return next;
+      });
+    } finally {
+      setIsLoadingRates(false);
+    }
+  }, [baseCurrency, rates]);
+
+  /**
+   * Converts an amount into the base currency (historical rate if a date is given)
+   */
+  const toBase = (amount: number, currency: string, date?: Date | string) =>
+    convertCurrency(amount, currency, baseCurrency, rates, date);
+
+  return {
+    baseCurrency,
+    setBaseCurrency,
+    rates,
+    isLoadingRates,
+    fetchFxRates,
+    toBase,
+  };
+}
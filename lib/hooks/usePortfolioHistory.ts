@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { toDateKey } from '@/lib/fx';
+import { ClosePoint, CloseSeries } from '@/lib/portfolio-history';
+
+const LOOKBACK_DAYS = 7; // Closes before the start, so the first day has a last close
+
+// Loaded closes of this session by symbol and range
+const loadedCloses = new Map<string, Promise<ClosePoint[]>>();
+
+/**
+ * Fetches the split-adjusted daily closes of a ticker or FX pair from /api/stock/[ticker]/prices
+ */
+async function fetchCloses(symbol: string, from: string, to: string): Promise<ClosePoint[]> {
+  try {
+    const query = new URLSearchParams({ from, to, adjust: 'splits' });
+    const response = await fetch(`/api/stock/${encodeURIComponent(symbol)}/prices?${query}`);
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    const data: { points: ClosePoint[] } = await response.json();
+    return data.points.map(({ date, close }) => ({ date, close }));
+  } catch (error) {
+    console.error(`Failed to fetch prices for ${symbol}:`, error);
+    loadedCloses.delete(`${symbol}|${from}|${to}`);
+    return [];
+  }
+}
+
+export interface PortfolioHistory {
+  closes: CloseSeries;
+  isLoadingHistory: boolean;
+}
+
+/**
+ * Daily closes of the given tickers and FX symbols since a start date (until today)
+ * Quantities in the ledger are taken as split-adjusted, like the current quotes
+ */
+export function usePortfolioHistory(symbols: string[], from: Date | undefined): PortfolioHistory {
+  const [loaded, setLoaded] = useState<{ key: string; closes: CloseSeries }>({ key: '', closes: {} });
+
+  const symbolsKey = [...new Set(symbols)].sort().join(',');
+  const fromKey = from ? toDateKey(new Date(from.getFullYear(), from.getMonth(), from.getDate() - LOOKBACK_DAYS)) : '';
+  const requestKey = symbolsKey && fromKey ? `${symbolsKey}|${fromKey}` : '';
+
+  useEffect(() => {
+    if (!requestKey) return;
+
+    let cancelled = false;
+    const to = toDateKey(new Date());
+
+    Promise.all(
+      symbolsKey.split(',').map(async (symbol) => {
+        const key = `${symbol}|${fromKey}|${to}`;
+        if (!loadedCloses.has(key)) {
+          loadedCloses.set(key, fetchCloses(symbol, fromKey, to));
+        }
+        return [symbol, await loadedCloses.get(key)!] as const;
+      })
+    ).then((entries) => {
+      if (!cancelled) setLoaded({ key: requestKey, closes: Object.fromEntries(entries) });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, symbolsKey, fromKey]);
+
+  // The closes of the previous request are kept until the new ones are loaded
+  const closes = loaded.closes;
+  const isLoadingHistory = requestKey !== '' && loaded.key !== requestKey;
+
+  return { closes, isLoadingHistory };
+}
@@ -0,0 +1,81 @@
+import { useMemo } from 'react';
+import { Transaction } from '@/lib/db';
+import { getHistorySymbols, getRangeStart, HistoryRange } from '@/lib/portfolio-history';
+import { calculateReturns, PeriodReturns } from '@/lib/returns';
+import { PortfolioHistory, usePortfolioHistory } from '@/lib/hooks/usePortfolioHistory';
+
+export interface Returns {
+  total: PeriodReturns;
+  byTicker: Record<string, PeriodReturns>;
+  byBank: Record<number, PeriodReturns>;
+}
+
+// A range until today or a calendar year
+export type ReturnsPeriod = HistoryRange | number;
+
+/**
+ * Start and end of the period, not before the first transaction and not after today
+ */
+export function getReturnsPeriodBounds(firstDate: Date | undefined, period: ReturnsPeriod, today: Date = new Date()) {
+  const yearEnd = typeof period === 'number' ? new Date(period, 11, 31) : today;
+  return {
+    to: yearEnd < today ? yearEnd : today,
+    from: !firstDate
+      ? undefined
+      : typeof period === 'number'
+        ? new Date(Math.max(new Date(period, 0, 1).getTime(), getRangeStart('MAX', firstDate).getTime()))
+        : getRangeStart(period, firstDate),
+  };
+}
+
+/**
+ * Returns of the period for all transactions, per ticker and per bank
+ * Pages showing several periods fetch the closes once for all of them and pass them as history
+ */
+export function useReturns(
+  transactions: Transaction[] | undefined,
+  currencies: Record<string, string>, // Quote currency by ticker
+  baseCurrency: string,
+  period: ReturnsPeriod,
+  history?: PortfolioHistory
+) {
+  // Period bounds only change with the transactions or the period, not on every render
+  const { from, to } = useMemo(() => {
+    const firstDate = transactions?.reduce<Date | undefined>(
+      (earliest, transaction) => (!earliest || new Date(transaction.date) < earliest ? new Date(transaction.date) : earliest),
+      undefined
+    );
+    return getReturnsPeriodBounds(firstDate, period);
+  }, [transactions, period]);
+  const ownHistory = usePortfolioHistory(
+    getHistorySymbols(transactions ?? [], currencies, baseCurrency),
+    history ? undefined : from
+  );
+  const { closes, isLoadingHistory } = history ?? ownHistory;
+
+  // Replaying the history of every ticker and bank is expensive, so it only runs when its inputs change
+  const returns = useMemo((): Returns | undefined => {
+    // No returns from the closes of another period
+    if (!transactions || transactions.length === 0 || !from || from > to || isLoadingHistory) return undefined;
+
+    const calculate = (group: Transaction[]) =>
+      calculateReturns({ transactions: group, closes, currencies, baseCurrency, from, to });
+
+    const groupBy = <K extends string | number>(getKey: (transaction: Transaction) => K) => {
+      const groups = new Map<K, Transaction[]>();
+      transactions.forEach((transaction) => {
+        const key = getKey(transaction);
+        groups.set(key, [...(groups.get(key) ?? []), transaction]);
+      });
+      return Object.fromEntries(Array.from(groups, ([key, group]) => [key, calculate(group)])) as Record<K, PeriodReturns>;
+    };
+
+    return {
+      total: calculate(transactions),
+      byTicker: groupBy((transaction) => transaction.ticker),
+      byBank: groupBy((transaction) => transaction.bankId),
+    };
+  }, [transactions, closes, currencies, baseCurrency, from, to, isLoadingHistory]);
+
+  return { returns, isLoadingReturns: isLoadingHistory };
+}
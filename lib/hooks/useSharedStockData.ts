@@ -8,6 +8,7 @@ export interface StockPrice {
   trailingDividendRate?: number;
   trailingDividendYield?: number;
   name?: string;
+  source?: string; // Market data provider of the price
 }
 
 export interface HistoricalData {
@@ -18,6 +19,12 @@ export interface HistoricalData {
   nextYearEstimatedDividends?: number;
 }
 
+// Per-ticker result of /api/stock/batch
+interface BatchResult {
+  quote?: { status: number; data?: StockPrice; error?: string };
+  history?: { status: number; data?: HistoricalData; error?: string };
+}
+
 interface CachedData {
   stockPrices: Record<string, StockPrice>;
   historicalData: Record<string, HistoricalData>;
@@ -26,6 +33,7 @@ interface CachedData {
 
 const STORAGE_KEY = 'stock_data_cache';
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const BATCH_SIZE = 100; // Tickers per batch request (limit of the API)
 
 export function useSharedStockData() {
   const [stockPrices, setStockPrices] = useState<Record<string, StockPrice>>({});
@@ -76,53 +84,40 @@ export function useSharedStockData() {
     setIsLoadingData(true);
 
     try {
-      const [pricesData, historicalDataArray] = await Promise.all([
-        // Fetch current prices
-        Promise.all(
-          tickers.map(async (ticker) => {
-            try {
-              const response = await fetch(`/api/stock/${ticker}`);
-              if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-              const data = await response.json();
-              return { ticker, data };
-            } catch (error) {
-              console.error(`Failed to fetch price for ${ticker}:`, error);
-              return { ticker, data: null };
+      const newPrices: Record<string, StockPrice> = {};
+      const newHistoricalData: Record<string, HistoricalData> = {};
+
+      // One batch request per chunk instead of two requests per ticker
+      for (let i = 0; i < tickers.length; i += BATCH_SIZE) {
+        const chunk = tickers.slice(i, i + BATCH_SIZE);
+        try {
+          const response = await fetch('/api/stock/batch', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ tickers: chunk, include: ['quote', 'history'] }),
+          });
+          if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+          const { results }: { results: Record<string, BatchResult> } = await response.json();
+
+          chunk.forEach((ticker) => {
+            const result = results[ticker.toUpperCase()];
+            if (result?.quote?.data) {
+              newPrices[ticker] = result.quote.data;
+            } else {
+              console.error(`Failed to fetch price for ${ticker}:`, result?.quote?.error);
             }
-          })
-        ),
-        // Fetch historical data
-        Promise.all(
-          tickers.map(async (ticker) => {
-            try {
-              const response = await fetch(`/api/stock/${ticker}/history`);
-              if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-              const data = await response.json();
-              return { ticker, data };
-            } catch (error) {
-              console.error(`Failed to fetch historical data for ${ticker}:`, error);
-              return { ticker, data: null };
+            if (result?.history?.data) {
+              newHistoricalData[ticker] = result.history.data;
+            } else {
+              console.error(`Failed to fetch historical data for ${ticker}:`, result?.history?.error);
             }
-          })
-        ),
-      ]);
-
-      // Update stock prices
-      const newPrices: Record<string, StockPrice> = {};
-      pricesData.forEach(({ ticker, data }) => {
-        if (data) {
-          newPrices[ticker] = data;
+          });
+        } catch (error) {
+          console.error(`Failed to fetch stock data for ${chunk.join(', ')}:`, error);
         }
-      });
-      setStockPrices(newPrices);
+      }
 
-      // Update historical data
-      const newHistoricalData: Record<string, HistoricalData> = {};
-      historicalDataArray.forEach(({ ticker, data }) => {
-        if (data) {
-          newHistoricalData[ticker] = data;
-        }
-      });
+      setStockPrices(newPrices);
       setHistoricalData(newHistoricalData);
     } catch (error) {
       console.error('Failed to fetch stock data:', error);
@@ -0,0 +1,133 @@
+import { Transaction } from './db';
+import { PositionImportRow, PositionParseResult } from './csv-positions';
+import { ImportBank, PositionImportGroup } from './imports';
+
+/**
+ * Detection of import rows that are probably already in the ledger (e.g. the same broker file imported twice)
+ */
+
+// What happens with an import row that duplicates an existing transaction
+export type DuplicateAction = 'skip' | 'replace' | 'keep';
+
+export const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: 'Überspringen',
+  replace: 'Ersetzen',
+  keep: 'Beide behalten',
+};
+
+// Brokers round prices differently in their exports, quantities only by fractions of a share
+const PRICE_TOLERANCE = 0.01; // Relative
+const QUANTITY_TOLERANCE = 0.0001; // Absolute
+
+export interface ImportSummary {
+  inserted: number;
+  skipped: number;
+  updated: number;
+}
+
+// Bank of an import row (see getImportRowBank)
+type RowBankResolver = (row: PositionImportRow) => ImportBank;
+
+// Import rows after applying the duplicate actions, grouped by bank
+export interface DeduplicatedImport {
+  groups: PositionImportGroup[];
+  replacedTransactionIds: number[]; // Existing transactions (with their positions) replaced by import rows
+  summary: ImportSummary;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return new Date(a).toISOString().slice(0, 10) === new Date(b).toISOString().slice(0, 10);
+}
+
+/**
+ * Checks whether an import row probably describes an existing transaction
+ */
+export function isLikelyDuplicate(row: PositionImportRow, transaction: Transaction): boolean {
+  return (
+    row._type === transaction.type &&
+    row.isin === transaction.isin &&
+    isSameDay(row.purchaseDate, transaction.date) &&
+    Math.abs(row.quantity - transaction.quantity) <= QUANTITY_TOLERANCE &&
+    Math.abs(row.purchasePrice - transaction.price) <= PRICE_TOLERANCE * Math.max(row.purchasePrice, transaction.price)
+  );
+}
+
+/**
+ * Finds the existing transaction of the same bank each valid import row duplicates (row number -> transaction)
+ * Every existing transaction is matched at most once, so identical rows within the file aren't all flagged
+ */
+export function findDuplicates(
+  rows: PositionImportRow[],
+  existing: Transaction[],
+  getBank: RowBankResolver
+): Map<number, Transaction> {
+  const duplicates = new Map<number, Transaction>();
+  const unmatched = [...existing];
+
+  rows.forEach((row) => {
+    if (row._error || row._excluded) return;
+    const bankId = getBank(row).id;
+    const index = unmatched.findIndex(
+      (transaction) => transaction.bankId === bankId && isLikelyDuplicate(row, transaction)
+    );
+    if (index >= 0) {
+      duplicates.set(row._rowNumber, unmatched[index]);
+      unmatched.splice(index, 1);
+    }
+  });
+
+  return duplicates;
+}
+
+/**
+ * Applies the chosen action per duplicate row (default: skip) to the parsed import and groups the rows by bank
+ */
+export function applyDuplicateActions(
+  data: PositionParseResult,
+  duplicates: Map<number, Transaction>,
+  actions: Record<number, DuplicateAction>,
+  getBank: RowBankResolver
+): DeduplicatedImport {
+  const result: DeduplicatedImport = {
+    groups: [],
+    replacedTransactionIds: [],
+    summary: { inserted: 0, skipped: 0, updated: 0 },
+  };
+
+  // Imported rows are in the same order as the parsed positions (buys) and transactions (everything else)
+  let positionIndex = 0;
+  let transactionIndex = 0;
+  data.allRows.forEach((row) => {
+    if (row._error || row._excluded) return;
+    const position = row._type === 'buy' ? data.success[positionIndex++] : undefined;
+    const transaction = position ? undefined : data.transactions[transactionIndex++];
+
+    const duplicate = duplicates.get(row._rowNumber);
+    const action = duplicate ? actions[row._rowNumber] ?? 'skip' : 'keep';
+    if (action === 'skip') {
+      result.summary.skipped++;
+      return;
+    }
+
+    const bank = getBank(row);
+    let group = result.groups.find((g) => g.bank.name.toLowerCase() === bank.name.toLowerCase());
+    if (!group) {
+      group = { bank, positions: [], transactions: [] };
+      result.groups.push(group);
+    }
+    if (position) {
+      group.positions.push(position);
+    } else {
+      group.transactions.push(transaction!);
+    }
+
+    if (action === 'replace') {
+      result.replacedTransactionIds.push(duplicate!.id!);
+      result.summary.updated++;
+    } else {
+      result.summary.inserted++;
+    }
+  });
+
+  return result;
+}
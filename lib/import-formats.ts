@@ -0,0 +1,170 @@
+/**
+ * Locale-aware parsing of numbers and dates in imported files
+ * The format is detected per file, ambiguous files are reported so the user can pick the format
+ */
+
+export type NumberFormat = 'de-DE' | 'en-US';
+
+export type DateFormat = 'YYYY-MM-DD' | 'DD.MM.YYYY' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface ImportFormats {
+  numberFormat: NumberFormat;
+  dateFormat: DateFormat;
+}
+
+export interface FormatDetection extends ImportFormats {
+  warnings: string[];
+}
+
+export const NUMBER_FORMAT_LABELS: Record<NumberFormat, string> = {
+  'de-DE': '1.234,56 (deutsch)',
+  'en-US': '1,234.56 (englisch)',
+};
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  'YYYY-MM-DD': 'JJJJ-MM-TT',
+  'DD.MM.YYYY': 'TT.MM.JJJJ',
+  'MM/DD/YYYY': 'MM/TT/JJJJ',
+  'DD/MM/YYYY': 'TT/MM/JJJJ',
+};
+
+// Our own export format
+export const DEFAULT_IMPORT_FORMATS: ImportFormats = { numberFormat: 'en-US', dateFormat: 'YYYY-MM-DD' };
+
+// Pattern and position of year, month and day in the match
+const DATE_PATTERNS: Record<DateFormat, [RegExp, number, number, number]> = {
+  'YYYY-MM-DD': [/^(\d{4})-(\d{1,2})-(\d{1,2})$/, 1, 2, 3],
+  'DD.MM.YYYY': [/^(\d{1,2})\.(\d{1,2})\.(\d{2,4})$/, 3, 2, 1],
+  'MM/DD/YYYY': [/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/, 3, 1, 2],
+  'DD/MM/YYYY': [/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/, 3, 2, 1],
+};
+
+const NUMBER_PATTERNS: Record<NumberFormat, RegExp> = {
+  'de-DE': /^[-+]?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/,
+  'en-US': /^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/,
+};
+
+/**
+ * Parses a number in the given format ("1.234,56" -> 1234.56), NaN if it doesn't match
+ */
+export function parseNumber(value: string, format: NumberFormat): number {
+  const trimmed = value.trim().replace(/\s/g, '');
+  if (!NUMBER_PATTERNS[format].test(trimmed)) return NaN;
+
+  return format === 'de-DE'
+    ? parseFloat(trimmed.replace(/\./g, '').replace(',', '.'))
+    : parseFloat(trimmed.replace(/,/g, ''));
+}
+
+/**
+ * Parses a date in the given format, null if it doesn't match or doesn't exist (e.g. 31.02.)
+ * The result is UTC midnight like the date inputs of the forms, so the day never shifts on export
+ */
+export function parseDate(value: string, format: DateFormat): Date | null {
+  const trimmed = value.trim().split(/[ T]/)[0];
+  const [pattern, yearIndex, monthIndex, dayIndex] = DATE_PATTERNS[format];
+  const match = pattern.exec(trimmed);
+  if (!match) return null;
+
+  const year = parseInt(match[yearIndex].length === 2 ? `20${match[yearIndex]}` : match[yearIndex]);
+  const month = parseInt(match[monthIndex]) - 1;
+  const day = parseInt(match[dayIndex]);
+
+  const date = new Date(Date.UTC(year, month, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Detects the number format of a column
+ * "1,234" and "1.234" fit both formats and only count if no other value decides
+ */
+export function detectNumberFormat(values: string[]): { format: NumberFormat; ambiguousExample?: string } {
+  let german = 0;
+  let english = 0;
+  let ambiguous: { format: NumberFormat; example: string } | undefined;
+
+  for (const value of values) {
+    const trimmed = value.trim().replace(/\s/g, '').replace(/^[-+]/, '');
+    const lastComma = trimmed.lastIndexOf(',');
+    const lastDot = trimmed.lastIndexOf('.');
+
+    if (lastComma >= 0 && lastDot >= 0) {
+      // The separator that comes last is the decimal separator
+      if (lastComma > lastDot) german++;
+      else english++;
+    } else if (lastComma >= 0) {
+      if (/^\d{1,3}(,\d{3})+$/.test(trimmed)) ambiguous ??= { format: 'de-DE', example: value };
+      else german++;
+    } else if (lastDot >= 0) {
+      if (/^\d{1,3}(\.\d{3})+$/.test(trimmed)) ambiguous ??= { format: 'en-US', example: value };
+      else english++;
+    }
+  }
+
+  if (german > 0 && english > 0) {
+    // Mixed notations, the majority wins
+    return { format: german > english ? 'de-DE' : 'en-US', ambiguousExample: ambiguous?.example };
+  }
+  if (german > 0) return { format: 'de-DE' };
+  if (english > 0) return { format: 'en-US' };
+  // Only ambiguous values: the separator is most likely a decimal separator
+  return ambiguous
+    ? { format: ambiguous.format, ambiguousExample: ambiguous.example }
+    : { format: DEFAULT_IMPORT_FORMATS.numberFormat };
+}
+
+/**
+ * Detects the date format of a column (MM/DD and DD/MM can't be told apart if no day is above 12)
+ */
+export function detectDateFormat(values: string[]): { format: DateFormat; ambiguousExample?: string } {
+  const nonEmpty = values.filter((value) => value.trim());
+  const candidates = (Object.keys(DATE_PATTERNS) as DateFormat[]).filter((format) =>
+    nonEmpty.every((value) => parseDate(value, format) !== null)
+  );
+
+  if (nonEmpty.length === 0 || candidates.length === 0) {
+    return { format: DEFAULT_IMPORT_FORMATS.dateFormat };
+  }
+  return {
+    format: candidates[0],
+    ambiguousExample: candidates.length > 1 ? nonEmpty[0] : undefined,
+  };
+}
+
+/**
+ * Detects number and date format of a file from the given columns
+ * Formats chosen by the user are taken as they are
+ */
+export function detectImportFormats(
+  rows: Record<string, string>[],
+  numberFields: string[],
+  dateFields: string[],
+  overrides: Partial<ImportFormats> = {}
+): FormatDetection {
+  const collect = (fields: string[]) =>
+    rows.flatMap((row) => fields.map((field) => row[field] ?? '')).filter((value) => value.trim());
+
+  const numbers: { format: NumberFormat; ambiguousExample?: string } = overrides.numberFormat
+    ? { format: overrides.numberFormat }
+    : detectNumberFormat(collect(numberFields));
+  const dates: { format: DateFormat; ambiguousExample?: string } = overrides.dateFormat
+    ? { format: overrides.dateFormat }
+    : detectDateFormat(collect(dateFields));
+
+  const warnings: string[] = [];
+  if (numbers.ambiguousExample) {
+    warnings.push(
+      `Zahlenformat nicht eindeutig (z.B. "${numbers.ambiguousExample}"), angenommen wird ${NUMBER_FORMAT_LABELS[numbers.format]}`
+    );
+  }
+  if (dates.ambiguousExample) {
+    warnings.push(
+      `Datumsformat nicht eindeutig (z.B. "${dates.ambiguousExample}"), angenommen wird ${DATE_FORMAT_LABELS[dates.format]}`
+    );
+  }
+
+  return { numberFormat: numbers.format, dateFormat: dates.format, warnings };
+}
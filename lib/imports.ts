@@ -0,0 +1,180 @@
+import { db, Bank, ImportBatch, Position, Transaction } from './db';
+import { deleteBankLedger, importLedger } from './transactions';
+import { findBankByName } from './banks';
+import type { PositionImportRow } from './csv-positions';
+
+/**
+ * CSV imports: every import runs in one database transaction and is recorded as a batch
+ * with the ids it added and the rows it overwrote, so it can be undone exactly
+ */
+
+export type ImportMode = ImportBatch['mode'];
+
+// Bank rows are imported into, new banks only have a name
+export interface ImportBank {
+  id?: number;
+  name: string;
+}
+
+// Rows of an import belonging to one bank
+export interface PositionImportGroup {
+  bank: ImportBank;
+  positions: Omit<Position, 'id'>[];
+  transactions: Omit<Transaction, 'id'>[];
+}
+
+// Older batches are dropped, only the latest import can be undone anyway
+const MAX_IMPORT_BATCHES = 10;
+
+/**
+ * Stores a batch and drops the oldest ones
+ */
+async function recordBatch(batch: Omit<ImportBatch, 'id'>): Promise<number> {
+  const id = (await db.importBatches.add(batch)) as number;
+  const ids = (await db.importBatches.orderBy('createdAt').primaryKeys()) as number[];
+  await db.importBatches.bulkDelete(ids.slice(0, Math.max(0, ids.length - MAX_IMPORT_BATCHES)));
+  return id;
+}
+
+/**
+ * Bank an import row belongs to: the bank named in its bank column (existing or new) or the default bank
+ */
+export function getImportRowBank(row: PositionImportRow, banks: Bank[], defaultBank?: Bank): ImportBank {
+  if (!row._bank) {
+    return { id: defaultBank?.id, name: defaultBank?.name ?? '' };
+  }
+  const bank = findBankByName(banks, row._bank);
+  return bank ? { id: bank.id, name: bank.name } : { name: row._bank };
+}
+
+/**
+ * Imports positions (with opening buys) and further transactions, grouped by bank
+ * Banks without id are looked up by name and created if there is none
+ * Overwriting replaces the whole ledger of the affected banks, appending can replace single
+ * transactions (opening buys together with their position)
+ */
+export async function importPositions(
+  groups: PositionImportGroup[],
+  mode: ImportMode,
+  replacedTransactionIds: number[] = []
+): Promise<number> {
+  return db.transaction('rw', [db.banks, db.positions, db.transactions, db.importBatches], async () => {
+    const removed: Required<ImportBatch['removed']> = { banks: [], positions: [], transactions: [] };
+    const added: Required<ImportBatch['added']> = { banks: [], positions: [], transactions: [] };
+
+    if (replacedTransactionIds.length > 0) {
+      const replaced = (await db.transactions.bulkGet(replacedTransactionIds)).filter(
+        (transaction): transaction is Transaction => !!transaction
+      );
+      const positionIds = replaced.flatMap((transaction) => transaction.positionId ?? []);
+      removed.positions.push(
+        ...(await db.positions.bulkGet(positionIds)).filter((position): position is Position => !!position)
+      );
+      removed.transactions.push(...replaced);
+      await db.transactions.bulkDelete(replacedTransactionIds);
+      await db.positions.bulkDelete(positionIds);
+    }
+
+    const existingBanks = await db.banks.toArray();
+    const bankIds: number[] = [];
+    const bankNames: string[] = [];
+    for (const group of groups) {
+      let bankId = group.bank.id ?? findBankByName(existingBanks, group.bank.name)?.id;
+      if (bankId === undefined) {
+        const bank = { name: group.bank.name.trim(), createdAt: new Date() };
+        bankId = (await db.banks.add(bank)) as number;
+        existingBanks.push({ ...bank, id: bankId });
+        added.banks.push(bankId);
+      } else if (mode === 'overwrite') {
+        removed.positions.push(...(await db.positions.where('bankId').equals(bankId).toArray()));
+        removed.transactions.push(...(await db.transactions.where('bankId').equals(bankId).toArray()));
+        await deleteBankLedger(bankId);
+      }
+      bankIds.push(bankId);
+      bankNames.push(group.bank.name);
+
+      const ids = await importLedger(
+        group.positions.map((position) => ({ ...position, bankId: bankId! })),
+        group.transactions.map((transaction) => ({ ...transaction, bankId: bankId! }))
+      );
+      added.positions.push(...ids.positions);
+      added.transactions.push(...ids.transactions);
+    }
+
+    const positionCount = groups.reduce((sum, group) => sum + group.positions.length, 0);
+    const transactionCount = groups.reduce((sum, group) => sum + group.transactions.length, 0);
+    return recordBatch({
+      label: `${positionCount} Positionen und ${transactionCount} Transaktionen in ${bankNames.join(', ')}`,
+      // Imports into a single existing bank can be undone from its page
+      bankId: groups.length === 1 && added.banks.length === 0 ? bankIds[0] : undefined,
+      mode,
+      added,
+      removed,
+      createdAt: new Date(),
+    });
+  });
+}
+
+/**
+ * Imports banks, overwriting deletes all existing banks with their ledgers
+ */
+export async function importBanks(banks: Omit<Bank, 'id'>[], mode: ImportMode): Promise<number> {
+  return db.transaction('rw', [db.banks, db.positions, db.transactions, db.importBatches], async () => {
+    const removed: ImportBatch['removed'] = {};
+    if (mode === 'overwrite') {
+      removed.banks = await db.banks.toArray();
+      removed.positions = await db.positions.toArray();
+      removed.transactions = await db.transactions.toArray();
+      await db.transactions.clear();
+      await db.positions.clear();
+      await db.banks.clear();
+    }
+
+    const bankIds = await db.banks.bulkAdd(banks, { allKeys: true });
+
+    return recordBatch({
+      label: `${banks.length} Banken`,
+      mode,
+      added: { banks: bankIds as number[] },
+      removed,
+      createdAt: new Date(),
+    });
+  });
+}
+
+/**
+ * Returns the latest import (the only one that can be undone)
+ */
+export async function getLatestImport(): Promise<ImportBatch | undefined> {
+  return db.importBatches.orderBy('createdAt').last();
+}
+
+/**
+ * Restores the state before an import: deletes the added rows and restores the overwritten ones
+ * Changes made to imported rows afterwards are lost
+ */
+export async function undoImport(batchId: number): Promise<void> {
+  await db.transaction('rw', [db.banks, db.positions, db.transactions, db.importBatches], async () => {
+    const latest = await getLatestImport();
+    if (!latest || latest.id !== batchId) {
+      throw new Error('Nur der letzte Import kann rückgängig gemacht werden');
+    }
+
+    // Rows referencing the added banks and positions (e.g. transactions added later) go as well
+    const addedBankIds = latest.added.banks ?? [];
+    if (addedBankIds.length > 0) {
+      await db.transactions.where('bankId').anyOf(addedBankIds).delete();
+      await db.positions.where('bankId').anyOf(addedBankIds).delete();
+    }
+    await db.transactions.bulkDelete(latest.added.transactions ?? []);
+    await db.positions.bulkDelete(latest.added.positions ?? []);
+    await db.banks.bulkDelete(addedBankIds);
+
+    // Overwritten rows come back with their original ids
+    await db.banks.bulkPut(latest.removed.banks ?? []);
+    await db.positions.bulkPut(latest.removed.positions ?? []);
+    await db.transactions.bulkPut(latest.removed.transactions ?? []);
+
+    await db.importBatches.delete(batchId);
+  });
+}
@@ -0,0 +1,57 @@
+import { AssetType } from './db';
+
+/**
+ * Supported asset classes and currencies of positions and transactions
+ */
+
+export const ASSET_TYPES: AssetType[] = ['stock', 'etf', 'fund', 'bond', 'certificate', 'commodity', 'crypto'];
+
+export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  stock: 'Aktie',
+  etf: 'ETF',
+  fund: 'Fonds',
+  bond: 'Anleihe',
+  certificate: 'Zertifikat',
+  commodity: 'Rohstoff',
+  crypto: 'Krypto',
+};
+
+/**
+ * Investment funds (ETFs and actively managed funds) fall under the InvStG
+ * and get a Teilfreistellung and Vorabpauschale
+ */
+export function isInvestmentFund(assetType: AssetType): boolean {
+  return assetType === 'etf' || assetType === 'fund';
+}
+
+// Currencies offered in the forms (any other ISO 4217 code can be imported via CSV)
+export const COMMON_CURRENCIES = [
+  'EUR', 'USD', 'GBP', 'GBX', 'CHF', 'JPY', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK', 'PLN', 'HKD',
+];
+
+// Pence sterling, used by the London Stock Exchange (not part of ISO 4217)
+const MINOR_CURRENCIES = ['GBX'];
+
+/**
+ * Checks whether a code is an ISO 4217 currency (or GBX)
+ */
+export function isValidCurrency(code: string): boolean {
+  if (MINOR_CURRENCIES.includes(code)) return true;
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  return typeof Intl.supportedValuesOf === 'function'
+    ? Intl.supportedValuesOf('currency').includes(code)
+    : true;
+}
+
+/**
+ * Dropdown options for a currency select (keeps an uncommon current value selectable)
+ */
+export function getCurrencyOptions(current?: string) {
+  const currencies = current && !COMMON_CURRENCIES.includes(current)
+    ? [...COMMON_CURRENCIES, current]
+    : COMMON_CURRENCIES;
+  return currencies.map((currency) => ({
+    value: currency,
+    label: currency === 'GBX' ? 'GBX (Pence)' : currency,
+  }));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from './db';
+import { matchLots } from './lots';
+
+const transaction = (fields: Partial<Transaction>): Transaction => ({
+  bankId: 1,
+  isin: 'DE0007164600',
+  ticker: 'SAP.DE',
+  type: 'buy',
+  date: new Date(2022, 0, 10),
+  quantity: 10,
+  price: 100,
+  currency: 'EUR',
+  fees: 0,
+  taxes: 0,
+  createdAt: new Date(2022, 0, 10),
+  ...fields,
+});
+
+describe('matchLots', () => {
+  it('moves the lots of a depot transfer with their original date and cost', () => {
+    const { openLots, sales } = matchLots([
+      transaction({ id: 1 }),
+      transaction({ id: 2, date: new Date(2023, 0, 10), price: 150 }),
+      transaction({ id: 3, type: 'transfer-out', date: new Date(2024, 0, 5), quantity: 15, price: 0 }),
+      transaction({ id: 4, bankId: 2, type: 'transfer-in', date: new Date(2024, 0, 8), quantity: 15, price: 200 }),
+      transaction({ id: 5, bankId: 2, type: 'sell', date: new Date(2024, 5, 1), quantity: 12, price: 200 }),
+    ]);
+
+    // 10 from 2022 at 100 and 2 from 2023 at 150
+    expect(sales[0].costBasis).toBeCloseTo(1300);
+    expect(sales[0].consumedLots.map((lot) => lot.date)).toEqual([new Date(2022, 0, 10), new Date(2023, 0, 10)]);
+    expect(openLots).toEqual([
+      expect.objectContaining({ bankId: 1, remainingQuantity: 5, costPerShare: 150 }),
+      expect.objectContaining({ bankId: 2, remainingQuantity: 3, costPerShare: 150, date: new Date(2023, 0, 10) }),
+    ]);
+  });
+
+  it('starts a new lot for shares transferred in from outside the ledger', () => {
+    const { openLots } = matchLots([
+      transaction({ id: 1, type: 'transfer-in', date: new Date(2024, 0, 8), quantity: 5, price: 80 }),
+    ]);
+
+    expect(openLots).toEqual([
+      expect.objectContaining({ transactionId: 1, remainingQuantity: 5, costPerShare: 80, date: new Date(2024, 0, 8) }),
+    ]);
+  });
+
+  it('ignores transactions without a positive quantity', () => {
+    const { openLots } = matchLots([
+      transaction({ id: 1, fees: 5 }),
+      transaction({ id: 2, quantity: 0, fees: 5 }),
+    ]);
+
+    expect(openLots).toHaveLength(1);
+    expect(openLots[0].costPerShare).toBeCloseTo(100.5);
+  });
+});
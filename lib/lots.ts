@@ -0,0 +1,277 @@
+import { CurrencyCode, Transaction } from './db';
+import { getQuantitySign, sortTransactions } from './transactions';
+
+/**
+ * FIFO tax-lot matching (German legal default, § 20 Abs. 4 Satz 7 EStG)
+ * Lots are matched per bank and ticker, since every depot is its own FIFO pool
+ * A depot transfer (transfer-out, then transfer-in of the same ISIN) moves the lots with their
+ * original purchase date and cost; shares transferred in from outside the ledger start a new lot
+ * at the price and date of the transfer-in
+ */
+
+/**
+ * Open (or partially consumed) purchase lot
+ */
+export interface Lot {
+  transactionId?: number;
+  bankId: number;
+  ticker: string;
+  isin: string;
+  currency: CurrencyCode;
+  date: Date;
+  quantity: number; // Original quantity of the lot
+  remainingQuantity: number;
+  costPerShare: number; // Incl. proportional purchase fees
+}
+
+/**
+ * Part of a lot consumed by a sale or transfer
+ */
+export interface ConsumedLot {
+  transactionId?: number;
+  date: Date;
+  quantity: number;
+  costBasis: number;
+}
+
+/**
+ * Realized result of a single sale
+ */
+export interface RealizedSale {
+  transactionId?: number;
+  bankId: number;
+  ticker: string;
+  isin: string;
+  currency: CurrencyCode;
+  date: Date;
+  quantity: number; // Matched quantity, the sale is only booked for the shares covered by lots
+  unmatchedQuantity: number; // Shares sold without a matching purchase (missing or wrong transactions)
+  proceeds: number; // Sale value minus fees
+  costBasis: number;
+  realizedGain: number;
+  taxesPaid: number;
+  consumedLots: ConsumedLot[];
+}
+
+export interface LotMatchResult {
+  openLots: Lot[];
+  sales: RealizedSale[];
+}
+
+/**
+ * Current holding of one ticker in one bank (sum of its open lots)
+ */
+export interface Holding {
+  bankId: number;
+  ticker: string;
+  isin: string;
+  currency: CurrencyCode;
+  quantity: number;
+  costBasis: number; // Remaining cost basis of the open lots
+  averagePrice: number;
+  firstDate: Date;
+}
+
+// Quantities below this threshold are treated as fully consumed
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Consumes the given quantity from the lots in FIFO order
+ * Returns the consumed lot parts and the quantity no lot was left for
+ */
+function consumeLots(lots: Lot[], quantity: number): { consumed: ConsumedLot[]; unmatchedQuantity: number } {
+  const consumed: ConsumedLot[] = [];
+  let remaining = quantity;
+
+  for (const lot of lots) {
+    if (remaining < QUANTITY_EPSILON) break;
+    if (lot.remainingQuantity < QUANTITY_EPSILON) continue;
+
+    const taken = Math.min(lot.remainingQuantity, remaining);
+    lot.remainingQuantity -= taken;
+    remaining -= taken;
+
+    consumed.push({
+      transactionId: lot.transactionId,
+      date: lot.date,
+      quantity: taken,
+      costBasis: taken * lot.costPerShare,
+    });
+  }
+
+  return { consumed, unmatchedQuantity: remaining > QUANTITY_EPSILON ? remaining : 0 };
+}
+
+export interface LotMatcher {
+  apply: (transaction: Transaction) => void;
+  getOpenLots: () => Lot[];
+  sales: RealizedSale[];
+}
+
+/**
+ * Incremental FIFO matching: transactions are applied one by one in chronological order,
+ * so the open lots can be read after every step (e.g. for each day of the portfolio history)
+ * The returned lots are live objects, later sales reduce their remaining quantity
+ */
+export function createLotMatcher(): LotMatcher {
+  const lotsByKey = new Map<string, Lot[]>();
+  // Lots transferred out and not yet transferred in, by ISIN (tickers may differ between depots)
+  const lotsInTransit = new Map<string, Lot[]>();
+  const sales: RealizedSale[] = [];
+
+  const apply = (transaction: Transaction) => {
+    const sign = getQuantitySign(transaction.type);
+    // Rows without a positive quantity (e.g. from restored backups) hold no shares and have no cost per share
+    if (sign === 0 || !(transaction.quantity > 0)) return;
+
+    const key = `${transaction.bankId}|${transaction.ticker}`;
+    if (!lotsByKey.has(key)) {
+      lotsByKey.set(key, []);
+    }
+    const lots = lotsByKey.get(key)!;
+
+    const transitKey = transaction.isin || transaction.ticker;
+
+    if (transaction.type === 'transfer-in') {
+      // Take over the lots of the matching transfer-out, the rest is a new lot
+      let remaining = transaction.quantity;
+      const inTransit = lotsInTransit.get(transitKey) ?? [];
+      while (remaining > QUANTITY_EPSILON && inTransit.length > 0) {
+        const lot = inTransit[0];
+        const taken = Math.min(lot.remainingQuantity, remaining);
+        lots.push({
+          ...lot,
+          bankId: transaction.bankId,
+          ticker: transaction.ticker,
+          quantity: taken,
+          remainingQuantity: taken,
+        });
+        lot.remainingQuantity -= taken;
+        remaining -= taken;
+        if (lot.remainingQuantity < QUANTITY_EPSILON) inTransit.shift();
+      }
+      // FIFO by the original purchase dates
+      lots.sort((a, b) => a.date.getTime() - b.date.getTime());
+      if (remaining < QUANTITY_EPSILON) return;
+
+      lots.push({
+        transactionId: transaction.id,
+        bankId: transaction.bankId,
+        ticker: transaction.ticker,
+        isin: transaction.isin,
+        currency: transaction.currency,
+        date: new Date(transaction.date),
+        quantity: remaining,
+        remainingQuantity: remaining,
+        costPerShare: transaction.price + (transaction.fees || 0) / transaction.quantity,
+      });
+      return;
+    }
+
+    if (sign > 0) {
+      lots.push({
+        transactionId: transaction.id,
+        bankId: transaction.bankId,
+        ticker: transaction.ticker,
+        isin: transaction.isin,
+        currency: transaction.currency,
+        date: new Date(transaction.date),
+        quantity: transaction.quantity,
+        remainingQuantity: transaction.quantity,
+        costPerShare: transaction.price + (transaction.fees || 0) / transaction.quantity,
+      });
+      return;
+    }
+
+    const currency = lots[0]?.currency ?? transaction.currency;
+    const { consumed: consumedLots, unmatchedQuantity } = consumeLots(lots, transaction.quantity);
+    // Fully consumed lots are never matched again
+    lotsByKey.set(key, lots.filter((lot) => lot.remainingQuantity > QUANTITY_EPSILON));
+
+    // Outgoing transfers realize nothing, their lots wait for the transfer-in of the receiving depot
+    if (transaction.type !== 'sell') {
+      lotsInTransit.set(transitKey, [
+        ...(lotsInTransit.get(transitKey) ?? []),
+        ...consumedLots.map((consumed) => ({
+          transactionId: consumed.transactionId,
+          bankId: transaction.bankId,
+          ticker: transaction.ticker,
+          isin: transaction.isin,
+          currency,
+          date: consumed.date,
+          quantity: consumed.quantity,
+          remainingQuantity: consumed.quantity,
+          costPerShare: consumed.costBasis / consumed.quantity,
+        })),
+      ]);
+      return;
+    }
+
+    // Proceeds and fees of shares without a lot are left out instead of being booked as gain
+    const quantity = transaction.quantity - unmatchedQuantity;
+    const costBasis = consumedLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const proceeds = quantity * transaction.price - ((transaction.fees || 0) * quantity) / transaction.quantity;
+
+    sales.push({
+      transactionId: transaction.id,
+      bankId: transaction.bankId,
+      ticker: transaction.ticker,
+      isin: transaction.isin,
+      currency: transaction.currency,
+      date: new Date(transaction.date),
+      quantity,
+      unmatchedQuantity,
+      proceeds,
+      costBasis,
+      realizedGain: proceeds - costBasis,
+      taxesPaid: transaction.taxes || 0,
+      consumedLots,
+    });
+  };
+
+  return {
+    apply,
+    getOpenLots: () => Array.from(lotsByKey.values()).flat(),
+    sales,
+  };
+}
+
+/**
+ * Matches all sells and outgoing transfers against the buy lots (FIFO)
+ */
+export function matchLots(transactions: Transaction[]): LotMatchResult {
+  const matcher = createLotMatcher();
+  sortTransactions(transactions).forEach(matcher.apply);
+  return { openLots: matcher.getOpenLots(), sales: matcher.sales };
+}
+
+/**
+ * Derives holdings per bank and ticker from the open FIFO lots
+ */
+export function deriveHoldings(transactions: Transaction[]): Holding[] {
+  const holdings = new Map<string, Holding>();
+
+  matchLots(transactions).openLots.forEach((lot) => {
+    const key = `${lot.bankId}|${lot.ticker}`;
+    let holding = holdings.get(key);
+    if (!holding) {
+      holding = {
+        bankId: lot.bankId,
+        ticker: lot.ticker,
+        isin: lot.isin,
+        currency: lot.currency,
+        quantity: 0,
+        costBasis: 0,
+        averagePrice: 0,
+        firstDate: lot.date,
+      };
+      holdings.set(key, holding);
+    }
+
+    holding.quantity += lot.remainingQuantity;
+    holding.costBasis += lot.remainingQuantity * lot.costPerShare;
+    holding.averagePrice = holding.costBasis / holding.quantity;
+  });
+
+  return Array.from(holdings.values());
+}
@@ -0,0 +1,262 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Server-side cache for market data, shared by all API routes and kept across restarts
+ * Entries are fresh for the TTL of their data type, afterwards they are served stale while they
+ * are refreshed in the background, until they expire
+ * The default store is a JSON file (MARKET_DATA_CACHE_FILE, empty for memory only), other stores
+ * (e.g. Redis) can be plugged in with setCacheStore
+ */
+
+export type CacheType = 'quote' | 'history' | 'fx' | 'fx-history' | 'prices';
+
+export interface CacheEntry<T = unknown> {
+  type: CacheType;
+  data: T;
+  storedAt: number;
+}
+
+export interface CacheStore {
+  name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<[string, CacheEntry][]>;
+}
+
+// Cached data as returned by the API routes
+export type CachedResult<T> = T & {
+  cached: boolean;
+  cacheAge: number; // Seconds
+  stale?: boolean; // Older than the TTL, a refresh is running
+};
+
+// Fresh for ttl, served stale (and refreshed) until ttl + staleFor
+export const CACHE_TTLS: Record<CacheType, { ttl: number; staleFor: number }> = {
+  quote: { ttl: 5 * 60 * 1000, staleFor: 60 * 60 * 1000 }, // 5 minutes, stale for 1 hour
+  history: { ttl: 60 * 60 * 1000, staleFor: 24 * 60 * 60 * 1000 }, // 1 hour, stale for 1 day
+  fx: { ttl: 5 * 60 * 1000, staleFor: 60 * 60 * 1000 },
+  'fx-history': { ttl: 24 * 60 * 60 * 1000, staleFor: 7 * 24 * 60 * 60 * 1000 }, // Historical rates don't change
+  prices: { ttl: 24 * 60 * 60 * 1000, staleFor: 30 * 24 * 60 * 60 * 1000 }, // Daily prices, extended incrementally
+};
+
+const MAX_ENTRIES = 5000;
+const DEFAULT_CACHE_FILE = '.next/cache/market-data.json';
+const WRITE_DELAY = 1000; // Writes to the file are batched
+
+/**
+ * JSON with tagged dates, so cached rows keep their Date values
+ */
+function stringify(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key: string, v: unknown) {
+    return this[key] instanceof Date ? { $date: (this[key] as Date).toISOString() } : v;
+  });
+}
+
+function parse(text: string): Record<string, CacheEntry> {
+  return JSON.parse(text, (_key, v) =>
+    v && typeof v === 'object' && typeof v.$date === 'string' && Object.keys(v).length === 1 ? new Date(v.$date) : v
+  );
+}
+
+/**
+ * Store keeping the entries in memory (least recently used first), optionally persisted to a JSON file
+ * The least recently used entries are evicted beyond maxEntries
+ */
+export function createLocalStore(file: string | null, maxEntries: number = MAX_ENTRIES): CacheStore {
+  let entries: Map<string, CacheEntry> | null = null;
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const load = (): Map<string, CacheEntry> => {
+    if (!entries) {
+      entries = new Map();
+      if (file) {
+        try {
+          entries = new Map(Object.entries(parse(readFileSync(file, 'utf-8'))));
+        } catch {
+          // No cache file yet (or unreadable), start empty
+        }
+      }
+    }
+    return entries;
+  };
+
+  const scheduleWrite = () => {
+    if (!file || writeTimer) return;
+    writeTimer = setTimeout(() => {
+      writeTimer = null;
+      try {
+        mkdirSync(dirname(file), { recursive: true });
+        writeFileSync(`${file}.tmp`, stringify(Object.fromEntries(load())));
+        renameSync(`${file}.tmp`, file);
+      } catch (error) {
+        console.error('[CACHE] Failed to write cache file:', error);
+      }
+    }, WRITE_DELAY);
+  };
+
+  return {
+    name: file ? `file (${file})` : 'memory',
+
+    async get(key) {
+      const map = load();
+      const entry = map.get(key);
+      if (entry) {
+        // Move to the end (most recently used)
+        map.delete(key);
+        map.set(key, entry);
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      const map = load();
+      map.delete(key);
+      map.set(key, entry);
+      for (const oldest of map.keys()) {
+        if (map.size <= maxEntries) break;
+        map.delete(oldest);
+      }
+      scheduleWrite();
+    },
+
+    async delete(key) {
+      const deleted = load().delete(key);
+      if (deleted) scheduleWrite();
+      return deleted;
+    },
+
+    async entries() {
+      return Array.from(load());
+    },
+  };
+}
+
+let store: CacheStore | null = null;
+
+export function getCacheStore(): CacheStore {
+  if (!store) {
+    const file = process.env.MARKET_DATA_CACHE_FILE ?? DEFAULT_CACHE_FILE;
+    store = createLocalStore(file || null);
+  }
+  return store;
+}
+
+/**
+ * Replaces the cache store (e.g. with a Redis backed one)
+ */
+export function setCacheStore(cacheStore: CacheStore) {
+  store = cacheStore;
+}
+
+export function cacheKey(type: CacheType, key: string): string {
+  return `${type}:${key}`;
+}
+
+export interface CacheLookup<T> {
+  result: CachedResult<T>;
+  stale: boolean;
+}
+
+/**
+ * Reads an entry, expired entries count as missing
+ */
+export async function readCache<T>(type: CacheType, key: string): Promise<CacheLookup<T> | undefined> {
+  const entry = (await getCacheStore().get(cacheKey(type, key))) as CacheEntry<T> | undefined;
+  if (!entry) return undefined;
+
+  const age = Date.now() - entry.storedAt;
+  const { ttl, staleFor } = CACHE_TTLS[type];
+  if (age >= ttl + staleFor) {
+    await getCacheStore().delete(cacheKey(type, key));
+    return undefined;
+  }
+
+  const stale = age >= ttl;
+  return {
+    result: { ...entry.data, cached: true, cacheAge: Math.floor(age / 1000), ...(stale ? { stale } : {}) },
+    stale,
+  };
+}
+
+/**
+ * Stores fresh data and returns it as an uncached result
+ */
+export async function writeCache<T>(type: CacheType, key: string, data: T): Promise<CachedResult<T>> {
+  await getCacheStore().set(cacheKey(type, key), { type, data, storedAt: Date.now() });
+  return { ...data, cached: false, cacheAge: 0 };
+}
+
+// Background refreshes in progress (by key), so a stale entry is only refreshed once at a time
+const refreshing = new Map<string, Promise<void>>();
+
+/**
+ * Runs a refresh in the background unless one is already running for the key
+ */
+export function revalidate(key: string, refresh: () => Promise<void>) {
+  if (refreshing.has(key)) return;
+  const running = refresh()
+    .catch((error) => console.error(`[CACHE] Refresh of ${key} failed:`, error))
+    .finally(() => refreshing.delete(key));
+  refreshing.set(key, running);
+}
+
+/**
+ * Returns cached data (stale data is refreshed in the background) or loads and caches it
+ */
+export async function cached<T>(type: CacheType, key: string, load: () => Promise<T>): Promise<CachedResult<T>> {
+  const lookup = await readCache<T>(type, key);
+  if (lookup) {
+    if (lookup.stale) {
+      revalidate(cacheKey(type, key), async () => {
+        await writeCache(type, key, await load());
+      });
+    }
+    return lookup.result;
+  }
+  return writeCache(type, key, await load());
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  type: CacheType;
+  storedAt: Date;
+  ageSeconds: number;
+  state: 'fresh' | 'stale' | 'expired';
+  size: number; // Bytes as JSON
+}
+
+/**
+ * Lists the cache entries (least recently used first)
+ */
+export async function inspectCache(): Promise<CacheEntryInfo[]> {
+  const now = Date.now();
+  return (await getCacheStore().entries()).map(([key, entry]) => {
+    const age = now - entry.storedAt;
+    const { ttl, staleFor } = CACHE_TTLS[entry.type] ?? { ttl: 0, staleFor: 0 };
+    return {
+      key,
+      type: entry.type,
+      storedAt: new Date(entry.storedAt),
+      ageSeconds: Math.floor(age / 1000),
+      state: age < ttl ? 'fresh' : age < ttl + staleFor ? 'stale' : 'expired',
+      size: stringify(entry.data).length,
+    };
+  });
+}
+
+/**
+ * Deletes entries by exact key, by type or by key prefix (all entries without filter), returns how many
+ */
+export async function purgeCache(filter: { key?: string; type?: CacheType; prefix?: string } = {}): Promise<number> {
+  const cacheStore = getCacheStore();
+  let purged = 0;
+  for (const [key, entry] of await cacheStore.entries()) {
+    if (filter.key !== undefined && key !== filter.key) continue;
+    if (filter.type !== undefined && entry.type !== filter.type) continue;
+    if (filter.prefix !== undefined && !key.startsWith(filter.prefix)) continue;
+    if (await cacheStore.delete(key)) purged++;
+  }
+  return purged;
+}
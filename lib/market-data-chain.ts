@@ -0,0 +1,203 @@
+import type { MarketDataProvider, MarketProfile, MarketQuote } from './market-data';
+
+/**
+ * Chain of market data providers: each request goes to the providers in order until one has data,
+ * missing quote and profile fields are filled in from the following providers
+ * Providers failing repeatedly are skipped for a while
+ */
+
+export interface ProviderHealth {
+  name: string;
+  failures: number; // Consecutive failures
+  skippedUntil?: Date;
+  lastError?: string;
+}
+
+// Failures in a row before a provider is skipped, and for how long
+const MAX_FAILURES = 3;
+const SKIP_DURATION = 5 * 60 * 1000; // 5 minutes
+
+// Fields in the quote currency, only taken from providers quoting in the same currency
+const MONETARY_FIELDS: (keyof MarketQuote)[] = ['previousClose', 'dividendRate', 'trailingDividendRate'];
+
+const QUOTE_FALLBACK_FIELDS: (keyof MarketQuote)[] = [
+  'previousClose',
+  'name',
+  'dividendRate',
+  'dividendYield',
+  'trailingDividendRate',
+  'trailingDividendYield',
+];
+
+const PROFILE_FALLBACK_FIELDS: (keyof MarketProfile)[] = ['name', 'isin', 'quoteType'];
+
+const health = new Map<string, ProviderHealth>();
+
+/**
+ * Returns the health of the providers that have been used so far
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  return Array.from(health.values());
+}
+
+function isAvailable(provider: MarketDataProvider): boolean {
+  const state = health.get(provider.name);
+  return !state?.skippedUntil || state.skippedUntil.getTime() <= Date.now();
+}
+
+function recordSuccess(provider: MarketDataProvider) {
+  health.set(provider.name, { name: provider.name, failures: 0 });
+}
+
+function recordFailure(provider: MarketDataProvider, error: unknown) {
+  const failures = (health.get(provider.name)?.failures ?? 0) + 1;
+  health.set(provider.name, {
+    name: provider.name,
+    failures,
+    skippedUntil: failures >= MAX_FAILURES ? new Date(Date.now() + SKIP_DURATION) : undefined,
+    lastError: error instanceof Error ? error.message : String(error),
+  });
+}
+
+// Unknown symbols are reported as errors by Yahoo, but don't mean the provider is down
+function isNoDataError(error: unknown): boolean {
+  return error instanceof Error && /not found|no data/i.test(error.message);
+}
+
+/**
+ * Calls a provider method on every available provider in turn, yielding the provider with its result
+ * Throws the last error if every provider failed
+ */
+async function* callProviders<T>(
+  providers: MarketDataProvider[],
+  call: (provider: MarketDataProvider) => Promise<T>
+): AsyncGenerator<{ provider: MarketDataProvider; result: T }> {
+  let lastError: unknown;
+  let answered = false;
+
+  // If every provider is skipped, they are all tried anyway
+  const available = providers.filter(isAvailable);
+  for (const provider of available.length > 0 ? available : providers) {
+    try {
+      const result = await call(provider);
+      recordSuccess(provider);
+      answered = true;
+      yield { provider, result };
+    } catch (error) {
+      if (isNoDataError(error)) {
+        answered = true;
+        continue;
+      }
+      console.warn(`[MARKET DATA] Provider "${provider.name}" failed:`, error);
+      recordFailure(provider, error);
+      lastError = error;
+    }
+  }
+
+  if (!answered && lastError) throw lastError;
+}
+
+/**
+ * Returns the first non-empty list of the providers
+ */
+async function firstList<T>(
+  providers: MarketDataProvider[],
+  call: (provider: MarketDataProvider) => Promise<T[]>
+): Promise<T[]> {
+  for await (const { result } of callProviders(providers, call)) {
+    if (result.length > 0) return result;
+  }
+  return [];
+}
+
+/**
+ * Quotes of several symbols, one call per symbol if the provider can't fetch several at once
+ */
+async function fetchQuotes(provider: MarketDataProvider, symbols: string[]): Promise<Record<string, MarketQuote>> {
+  if (provider.getQuotes) return provider.getQuotes(symbols);
+
+  const quotes: Record<string, MarketQuote> = {};
+  await Promise.all(
+    symbols.map(async (symbol) => {
+      try {
+        const quote = await provider.getQuote(symbol);
+        if (quote) quotes[symbol] = quote;
+      } catch (error) {
+        if (!isNoDataError(error)) throw error;
+      }
+    })
+  );
+  return quotes;
+}
+
+function isCompleteQuote(quote: MarketQuote | undefined): boolean {
+  return !!quote && QUOTE_FALLBACK_FIELDS.every((field) => quote[field] !== undefined);
+}
+
+/**
+ * Combines providers into one provider with fallback
+ */
+export function createProviderChain(providers: MarketDataProvider[]): Required<MarketDataProvider> {
+  const chain: Required<MarketDataProvider> = {
+    name: providers.map((provider) => provider.name).join(','),
+
+    async getQuote(symbol) {
+      return (await chain.getQuotes([symbol]))[symbol] ?? null;
+    },
+
+    async getQuotes(symbols) {
+      const quotes: Record<string, MarketQuote> = {};
+      const incomplete = () => symbols.filter((symbol) => !isCompleteQuote(quotes[symbol]));
+
+      for await (const { provider, result } of callProviders(providers, (p) => fetchQuotes(p, incomplete()))) {
+        Object.entries(result).forEach(([symbol, fallback]) => {
+          const quote = quotes[symbol];
+          if (!fallback.price) return;
+          if (!quote) {
+            quotes[symbol] = { ...fallback, source: provider.name, fieldSources: {} };
+            return;
+          }
+          for (const field of QUOTE_FALLBACK_FIELDS) {
+            if (quote[field] !== undefined || fallback[field] === undefined) continue;
+            if (MONETARY_FIELDS.includes(field) && fallback.currency !== quote.currency) continue;
+            Object.assign(quote, { [field]: fallback[field] });
+            quote.fieldSources![field] = provider.name;
+          }
+        });
+        if (incomplete().length === 0) break;
+      }
+
+      return quotes;
+    },
+
+    search: (query) => firstList(providers, (provider) => provider.search(query)),
+
+    getHistoricalPrices: (symbol, from, to) =>
+      firstList(providers, (provider) => provider.getHistoricalPrices(symbol, from, to)),
+
+    getDividends: (symbol, from, to) => firstList(providers, (provider) => provider.getDividends(symbol, from, to)),
+
+    getSplits: (symbol, from, to) => firstList(providers, (provider) => provider.getSplits(symbol, from, to)),
+
+    async getProfile(symbol) {
+      let profile: MarketProfile | null = null;
+
+      for await (const { provider, result } of callProviders(providers, (p) => p.getProfile(symbol))) {
+        if (!result) continue;
+        if (!profile) {
+          profile = { ...result, source: provider.name, fieldSources: {} };
+        } else {
+          for (const field of PROFILE_FALLBACK_FIELDS) {
+            if (profile[field] !== undefined || result[field] === undefined) continue;
+            Object.assign(profile, { [field]: result[field] });
+            profile.fieldSources![field] = provider.name;
+          }
+        }
+        if (PROFILE_FALLBACK_FIELDS.every((field) => profile![field] !== undefined)) break;
+      }
+
+      return profile;
+    },
+  };
+  return chain;
+}
@@ -0,0 +1,107 @@
+import { readFileSync, statSync } from 'fs';
+import { csvToArray } from './csv-utils';
+import type { MarketDataProvider, PricePoint } from './market-data';
+
+/**
+ * Market data from a self-hosted CSV price file (MARKET_DATA_CSV)
+ * Columns: symbol, date (YYYY-MM-DD), close and optionally currency, name, isin
+ * The file is read again whenever it changes, without the variable the provider has no data
+ */
+
+interface CSVInstrument {
+  currency: string;
+  name?: string;
+  isin?: string;
+  closes: PricePoint[]; // Oldest first
+}
+
+let loaded: { path: string; modified: number; instruments: Map<string, CSVInstrument> } | null = null;
+
+function getInstruments(): Map<string, CSVInstrument> {
+  const path = process.env.MARKET_DATA_CSV;
+  if (!path) return new Map();
+
+  const modified = statSync(path).mtimeMs;
+  if (loaded?.path === path && loaded.modified === modified) {
+    return loaded.instruments;
+  }
+
+  const instruments = new Map<string, CSVInstrument>();
+  csvToArray(readFileSync(path, 'utf-8')).forEach((row) => {
+    const symbol = row.symbol?.toUpperCase();
+    const close = parseFloat(row.close);
+    const date = new Date(row.date);
+    if (!symbol || isNaN(close) || isNaN(date.getTime())) return;
+
+    let instrument = instruments.get(symbol);
+    if (!instrument) {
+      instrument = { currency: row.currency || 'EUR', closes: [] };
+      instruments.set(symbol, instrument);
+    }
+    instrument.name ||= row.name || undefined;
+    instrument.isin ||= row.isin || undefined;
+    instrument.closes.push({ date, close });
+  });
+  instruments.forEach((instrument) => instrument.closes.sort((a, b) => a.date.getTime() - b.date.getTime()));
+
+  loaded = { path, modified, instruments };
+  return instruments;
+}
+
+export const csvProvider: MarketDataProvider = {
+  name: 'csv',
+
+  async getQuote(symbol) {
+    const instrument = getInstruments().get(symbol.toUpperCase());
+    const latest = instrument?.closes[instrument.closes.length - 1];
+    if (!instrument || !latest) return null;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price: latest.close,
+      previousClose: instrument.closes[instrument.closes.length - 2]?.close,
+      currency: instrument.currency,
+      name: instrument.name,
+    };
+  },
+
+  async search(query) {
+    const normalized = query.trim().toLowerCase();
+    return Array.from(getInstruments())
+      .filter(
+        ([symbol, instrument]) =>
+          symbol.toLowerCase().includes(normalized) ||
+          instrument.name?.toLowerCase().includes(normalized) ||
+          instrument.isin?.toLowerCase() === normalized
+      )
+      .map(([symbol, instrument]) => ({
+        symbol,
+        shortname: instrument.name || symbol,
+        longname: instrument.name || '',
+        exchDisp: 'CSV',
+        typeDisp: '',
+        quoteType: '',
+      }));
+  },
+
+  async getHistoricalPrices(symbol, from, to) {
+    return (getInstruments().get(symbol.toUpperCase())?.closes ?? []).filter(
+      (point) => point.date >= from && point.date < to
+    );
+  },
+
+  async getDividends() {
+    return [];
+  },
+
+  async getSplits() {
+    return [];
+  },
+
+  async getProfile(symbol) {
+    const instrument = getInstruments().get(symbol.toUpperCase());
+    if (!instrument) return null;
+
+    return { symbol: symbol.toUpperCase(), name: instrument.name, isin: instrument.isin };
+  },
+};
@@ -0,0 +1,158 @@
+import { readFileSync } from 'fs';
+import defaultFixtures from './fixtures/market-data.json';
+import type { MarketDataProvider, PricePoint } from './market-data';
+
+/**
+ * Market data from local fixtures, for development and tests without network access
+ * MARKET_DATA_FIXTURES can point to another JSON file of the same shape as fixtures/market-data.json
+ */
+
+interface FixtureInstrument {
+  name: string;
+  isin?: string;
+  currency: string;
+  quoteType: string;
+  exchange?: string;
+  price: number; // Current price
+  dividendRate?: number;
+  dividendYield?: number;
+  prices: { date: string; close: number }[]; // Closes (YYYY-MM-DD), days in between are interpolated
+  dividends?: { date: string; amount: number }[];
+  splits?: { date: string; ratio: number }[]; // Prices and dividends are split-adjusted already
+}
+
+type Fixtures = Record<string, FixtureInstrument>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Display names of the quote types, as used by Yahoo search
+const TYPE_LABELS: Record<string, string> = {
+  EQUITY: 'Equity',
+  ETF: 'ETF',
+  MUTUALFUND: 'Fund',
+  CRYPTOCURRENCY: 'Cryptocurrency',
+  CURRENCY: 'Currency',
+  FUTURE: 'Future',
+};
+
+let fixtures: Fixtures | null = null;
+
+function getFixtures(): Fixtures {
+  if (!fixtures) {
+    const path = process.env.MARKET_DATA_FIXTURES;
+    fixtures = path ? JSON.parse(readFileSync(path, 'utf-8')) : (defaultFixtures as Fixtures);
+  }
+  return fixtures!;
+}
+
+function getInstrument(symbol: string): FixtureInstrument | undefined {
+  return getFixtures()[symbol.toUpperCase()];
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Daily closes (weekdays) of an instrument: interpolated between the fixture closes,
+ * the current price from the last fixture close until today
+ */
+function getDailyCloses(instrument: FixtureInstrument, from: Date, to: Date): PricePoint[] {
+  const points = instrument.prices
+    .map((point) => ({ time: Date.parse(point.date), close: point.close }))
+    .sort((a, b) => a.time - b.time);
+  points.push({ time: Math.max(startOfDay(new Date()), points[points.length - 1]?.time ?? 0), close: instrument.price });
+
+  const closes: PricePoint[] = [];
+  const end = Math.min(to.getTime() - 1, points[points.length - 1].time);
+  let index = 0;
+  for (let time = Math.max(startOfDay(from), points[0].time); time <= end; time += DAY) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+
+    while (index < points.length - 2 && points[index + 1].time < time) index++;
+    const left = points[index];
+    const right = points[index + 1] ?? left;
+    const share = right.time === left.time ? 1 : (time - left.time) / (right.time - left.time);
+    closes.push({ date: new Date(time), close: Math.round((left.close + (right.close - left.close) * share) * 100) / 100 });
+  }
+  return closes;
+}
+
+export const localProvider: MarketDataProvider = {
+  name: 'local',
+
+  async getQuote(symbol) {
+    const instrument = getInstrument(symbol);
+    if (!instrument) return null;
+
+    const yesterday = new Date(Date.now() - DAY);
+    const recentCloses = getDailyCloses(instrument, new Date(yesterday.getTime() - 7 * DAY), yesterday);
+    const yearAgo = Date.now() - 365 * DAY;
+    const trailingDividendRate = (instrument.dividends ?? [])
+      .filter((dividend) => Date.parse(dividend.date) >= yearAgo)
+      .reduce((sum, dividend) => sum + dividend.amount, 0);
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price: instrument.price,
+      previousClose: recentCloses[recentCloses.length - 1]?.close,
+      currency: instrument.currency,
+      name: instrument.name,
+      dividendRate: instrument.dividendRate,
+      dividendYield: instrument.dividendYield,
+      trailingDividendRate: trailingDividendRate || undefined,
+      trailingDividendYield: trailingDividendRate ? trailingDividendRate / instrument.price : undefined,
+    };
+  },
+
+  async search(query) {
+    const normalized = query.trim().toLowerCase();
+    return Object.entries(getFixtures())
+      .filter(
+        ([symbol, instrument]) =>
+          symbol.toLowerCase().includes(normalized) ||
+          instrument.name.toLowerCase().includes(normalized) ||
+          instrument.isin?.toLowerCase() === normalized
+      )
+      .map(([symbol, instrument]) => ({
+        symbol,
+        shortname: instrument.name,
+        longname: instrument.name,
+        exchDisp: instrument.exchange || '',
+        typeDisp: TYPE_LABELS[instrument.quoteType] || instrument.quoteType,
+        quoteType: instrument.quoteType,
+      }));
+  },
+
+  async getHistoricalPrices(symbol, from, to) {
+    const instrument = getInstrument(symbol);
+    return instrument ? getDailyCloses(instrument, from, to) : [];
+  },
+
+  async getDividends(symbol, from, to) {
+    return (getInstrument(symbol)?.dividends ?? [])
+      .map((dividend) => ({ date: new Date(dividend.date), amount: dividend.amount }))
+      .filter((dividend) => dividend.date >= from && dividend.date < to)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  },
+
+  async getSplits(symbol, from, to) {
+    return (getInstrument(symbol)?.splits ?? [])
+      .map((split) => ({ date: new Date(split.date), ratio: split.ratio }))
+      .filter((split) => split.date >= from && split.date < to)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  },
+
+  async getProfile(symbol) {
+    const instrument = getInstrument(symbol);
+    if (!instrument) return null;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      name: instrument.name,
+      isin: instrument.isin,
+      quoteType: instrument.quoteType,
+    };
+  },
+};
@@ -0,0 +1,67 @@
+import { readFileSync, statSync } from 'fs';
+import type { MarketDataProvider } from './market-data';
+
+/**
+ * Manually maintained prices from a JSON file (MARKET_DATA_MANUAL), last resort for instruments
+ * no other source knows: { "A0S9GB.DE": { "price": 121.5, "currency": "EUR", "name": "...", "isin": "..." } }
+ * Manual prices have no history, without the variable the provider has no data
+ */
+
+interface ManualPrice {
+  price: number;
+  currency: string;
+  name?: string;
+  isin?: string;
+}
+
+let loaded: { path: string; modified: number; prices: Record<string, ManualPrice> } | null = null;
+
+function getManualPrice(symbol: string): ManualPrice | undefined {
+  const path = process.env.MARKET_DATA_MANUAL;
+  if (!path) return undefined;
+
+  const modified = statSync(path).mtimeMs;
+  if (loaded?.path !== path || loaded.modified !== modified) {
+    const prices: Record<string, ManualPrice> = JSON.parse(readFileSync(path, 'utf-8'));
+    loaded = {
+      path,
+      modified,
+      prices: Object.fromEntries(Object.entries(prices).map(([key, price]) => [key.toUpperCase(), price])),
+    };
+  }
+  return loaded.prices[symbol.toUpperCase()];
+}
+
+export const manualProvider: MarketDataProvider = {
+  name: 'manual',
+
+  async getQuote(symbol) {
+    const manual = getManualPrice(symbol);
+    if (!manual) return null;
+
+    return { symbol: symbol.toUpperCase(), price: manual.price, currency: manual.currency, name: manual.name };
+  },
+
+  async search() {
+    return [];
+  },
+
+  async getHistoricalPrices() {
+    return [];
+  },
+
+  async getDividends() {
+    return [];
+  },
+
+  async getSplits() {
+    return [];
+  },
+
+  async getProfile(symbol) {
+    const manual = getManualPrice(symbol);
+    if (!manual) return null;
+
+    return { symbol: symbol.toUpperCase(), name: manual.name, isin: manual.isin };
+  },
+};
@@ -0,0 +1,119 @@
+import YahooFinance from 'yahoo-finance2';
+import type { Quote } from 'yahoo-finance2/modules/quote';
+import type { MarketDataProvider, MarketQuote } from './market-data';
+
+/**
+ * Market data from Yahoo Finance
+ */
+
+const yahooFinance = new YahooFinance();
+
+function toMarketQuote(symbol: string, quote: Quote): MarketQuote {
+  return {
+    symbol,
+    price: quote.regularMarketPrice || 0,
+    previousClose: quote.regularMarketPreviousClose,
+    currency: quote.currency || 'USD',
+    name: quote.shortName || quote.longName,
+    dividendRate: quote.dividendRate,
+    dividendYield: quote.dividendYield,
+    trailingDividendRate: quote.trailingAnnualDividendRate,
+    trailingDividendYield: quote.trailingAnnualDividendYield,
+  };
+}
+
+export const yahooProvider: MarketDataProvider = {
+  name: 'yahoo',
+
+  async getQuote(symbol) {
+    const quote = await yahooFinance.quote(symbol);
+    return quote ? toMarketQuote(symbol, quote) : null;
+  },
+
+  async getQuotes(symbols) {
+    // Yahoo answers with the quotes it knows, in any order
+    const quotes = await yahooFinance.quote(symbols);
+    const result: Record<string, MarketQuote> = {};
+    quotes.forEach((quote) => {
+      const symbol = symbols.find((s) => s.toUpperCase() === quote.symbol.toUpperCase());
+      if (symbol) result[symbol] = toMarketQuote(symbol, quote);
+    });
+    return result;
+  },
+
+  async search(query) {
+    const searchResults = await yahooFinance.search(query);
+
+    // Non-Yahoo hits (e.g. news pages) have no symbol
+    return (searchResults.quotes ?? []).flatMap((quote) =>
+      quote.isYahooFinance
+        ? [
+            {
+              symbol: quote.symbol,
+              shortname: quote.shortname || quote.longname || '',
+              longname: quote.longname || '',
+              exchDisp: quote.exchDisp || '',
+              typeDisp: quote.typeDisp || '',
+              quoteType: quote.quoteType || '',
+            },
+          ]
+        : []
+    );
+  },
+
+  async getHistoricalPrices(symbol, from, to) {
+    const historicalQuotes = await yahooFinance.historical(symbol, {
+      period1: from,
+      period2: to,
+      interval: '1d',
+    });
+    return (historicalQuotes ?? []).map((quote) => ({
+      date: new Date(quote.date),
+      open: quote.open,
+      high: quote.high,
+      low: quote.low,
+      close: quote.close,
+      volume: quote.volume,
+    }));
+  },
+
+  async getDividends(symbol, from, to) {
+    const dividendHistory = await yahooFinance.historical(symbol, {
+      period1: from,
+      period2: to,
+      events: 'dividends',
+    });
+    return (dividendHistory ?? [])
+      .filter((item) => item.dividends)
+      .map((item) => ({ date: new Date(item.date), amount: item.dividends }));
+  },
+
+  async getSplits(symbol, from, to) {
+    const splitHistory = await yahooFinance.historical(symbol, {
+      period1: from,
+      period2: to,
+      events: 'split',
+    });
+    // Ratios come as "4:1" (new:old)
+    return (splitHistory ?? []).flatMap((item) => {
+      const [newShares, oldShares] = item.stockSplits.split(':').map(Number);
+      return newShares > 0 && oldShares > 0 ? [{ date: new Date(item.date), ratio: newShares / oldShares }] : [];
+    });
+  },
+
+  async getProfile(symbol) {
+    const summary = await yahooFinance.quoteSummary(symbol, {
+      modules: ['summaryProfile', 'quoteType', 'price'],
+    });
+    if (!summary) return null;
+
+    // The ISIN isn't part of the typed profile fields
+    const isin = summary.summaryProfile?.isin;
+    return {
+      symbol,
+      name: summary.quoteType?.longName || summary.quoteType?.shortName || undefined,
+      isin: typeof isin === 'string' ? isin : undefined,
+      quoteType: summary.quoteType?.quoteType,
+    };
+  },
+};
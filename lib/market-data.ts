@@ -0,0 +1,113 @@
+import { yahooProvider } from './market-data-yahoo';
+import { localProvider } from './market-data-local';
+import { csvProvider } from './market-data-csv';
+import { manualProvider } from './market-data-manual';
+import { createProviderChain } from './market-data-chain';
+
+/**
+ * Market data providers used by the API routes
+ * MARKET_DATA_PROVIDER lists the providers to ask in order (default: yahoo,csv,manual),
+ * local serves fixtures and works offline
+ */
+
+// Provider of each field that was filled in by a fallback provider
+export type FieldSources = Partial<Record<string, string>>;
+
+// Current quote of a symbol
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  previousClose?: number;
+  currency: string;
+  name?: string;
+  dividendRate?: number; // Forward dividend (estimated for next year)
+  dividendYield?: number; // Forward yield
+  trailingDividendRate?: number; // Trailing dividend (current year)
+  trailingDividendYield?: number; // Trailing yield
+  source?: string; // Provider of the price
+  fieldSources?: FieldSources;
+}
+
+// Search hit (same shape as returned by /api/stock/search)
+export interface MarketSearchResult {
+  symbol: string;
+  shortname: string;
+  longname: string;
+  exchDisp: string;
+  typeDisp: string;
+  quoteType: string;
+}
+
+// Daily prices, adjusted for splits (like Yahoo quotes them)
+export interface PricePoint {
+  date: Date;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+}
+
+// Dividend per share, adjusted for splits
+export interface DividendPayment {
+  date: Date;
+  amount: number;
+}
+
+export interface StockSplit {
+  date: Date;
+  ratio: number; // New shares per old share, e.g. 4 for a 4:1 split
+}
+
+// Master data of a symbol
+export interface MarketProfile {
+  symbol: string;
+  name?: string;
+  isin?: string;
+  quoteType?: string; // Yahoo quote type, e.g. EQUITY, ETF, MUTUALFUND, CRYPTOCURRENCY
+  source?: string;
+  fieldSources?: FieldSources;
+}
+
+export interface MarketDataProvider {
+  name: string;
+  // Resolves to null if the symbol is unknown
+  getQuote(symbol: string): Promise<MarketQuote | null>;
+  // Quotes of several symbols with one upstream call (symbol -> quote, unknown symbols are left out)
+  getQuotes?(symbols: string[]): Promise<Record<string, MarketQuote>>;
+  search(query: string): Promise<MarketSearchResult[]>;
+  // Daily closes from (inclusive) to (exclusive), oldest first
+  getHistoricalPrices(symbol: string, from: Date, to: Date): Promise<PricePoint[]>;
+  getDividends(symbol: string, from: Date, to: Date): Promise<DividendPayment[]>;
+  getSplits(symbol: string, from: Date, to: Date): Promise<StockSplit[]>;
+  getProfile(symbol: string): Promise<MarketProfile | null>;
+}
+
+const PROVIDERS: Record<string, MarketDataProvider> = {
+  yahoo: yahooProvider,
+  local: localProvider,
+  csv: csvProvider,
+  manual: manualProvider,
+};
+
+const DEFAULT_PROVIDERS = 'yahoo,csv,manual';
+
+let chain: { config: string; provider: Required<MarketDataProvider> } | null = null;
+
+/**
+ * Returns the provider chain configured by MARKET_DATA_PROVIDER
+ */
+export function getMarketDataProvider(): Required<MarketDataProvider> {
+  const config = process.env.MARKET_DATA_PROVIDER || DEFAULT_PROVIDERS;
+  if (chain?.config !== config) {
+    const providers = config.split(',').map((name) => {
+      const provider = PROVIDERS[name.trim()];
+      if (!provider) {
+        throw new Error(`Unknown market data provider "${name}" (available: ${Object.keys(PROVIDERS).join(', ')})`);
+      }
+      return provider;
+    });
+    chain = { config, provider: createProviderChain(providers) };
+  }
+  return chain.provider;
+}
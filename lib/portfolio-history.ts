@@ -0,0 +1,200 @@
+import { Transaction } from './db';
+import { normalizeCurrency, toDateKey } from './fx';
+import { createLotMatcher, Lot } from './lots';
+import { getQuantitySign, sortTransactions } from './transactions';
+
+/**
+ * Historical portfolio value: the holdings of each day valued at that day's close and FX rate
+ */
+
+export type HistoryRange = '1M' | '6M' | 'YTD' | '1Y' | '5Y' | 'MAX';
+
+export const HISTORY_RANGES: { range: HistoryRange; label: string }[] = [
+  { range: '1M', label: '1M' },
+  { range: '6M', label: '6M' },
+  { range: 'YTD', label: 'YTD' },
+  { range: '1Y', label: '1J' },
+  { range: '5Y', label: '5J' },
+  { range: 'MAX', label: 'Max' },
+];
+
+// Daily close of a ticker or FX pair
+export interface ClosePoint {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+// Closes by ticker and FX symbol (e.g. USDEUR=X), oldest first
+export type CloseSeries = Record<string, ClosePoint[]>;
+
+export interface PortfolioValuePoint {
+  date: string; // YYYY-MM-DD
+  value: number; // Market value of the holdings in the base currency
+  invested: number; // Cost basis of the open lots in the base currency (at the FX rate of the purchase date)
+  transactions: Transaction[]; // Transactions changing the holdings since the previous point
+}
+
+export interface PortfolioHistoryOptions {
+  transactions: Transaction[];
+  closes: CloseSeries;
+  currencies: Record<string, string>; // Quote currency by ticker
+  baseCurrency: string;
+  from: Date;
+  to: Date;
+  interval: 'daily' | 'weekly';
+}
+
+/**
+ * Start of a chart range, never before the first transaction
+ */
+export function getRangeStart(range: HistoryRange, firstDate: Date, today: Date = new Date()): Date {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const first = new Date(firstDate.getFullYear(), firstDate.getMonth(), firstDate.getDate());
+
+  switch (range) {
+    case '1M':
+      start.setMonth(start.getMonth() - 1);
+      break;
+    case '6M':
+      start.setMonth(start.getMonth() - 6);
+      break;
+    case 'YTD':
+      start.setMonth(0, 1);
+      break;
+    case '1Y':
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+    case '5Y':
+      start.setFullYear(start.getFullYear() - 5);
+      break;
+    case 'MAX':
+      return first;
+  }
+  return start < first ? first : start;
+}
+
+/**
+ * Symbol of the FX pair converting a currency into the base currency (null if none is needed)
+ */
+export function getFxSymbol(currency: string, baseCurrency: string): string | null {
+  const iso = normalizeCurrency(currency).currency;
+  return iso === baseCurrency ? null : `${iso}${baseCurrency}=X`;
+}
+
+/**
+ * Symbols whose closes value the transactions: the tickers and the FX pairs of their currencies
+ */
+export function getHistorySymbols(
+  transactions: Transaction[],
+  currencies: Record<string, string>,
+  baseCurrency: string
+): string[] {
+  const fxSymbols = [...Object.values(currencies), ...transactions.map((transaction) => transaction.currency)]
+    .map((currency) => getFxSymbol(currency, baseCurrency))
+    .filter((symbol): symbol is string => symbol !== null);
+  return [...new Set([...transactions.map((transaction) => transaction.ticker), ...fxSymbols])];
+}
+
+/**
+ * Last close on or before the day
+ */
+export function getCloseOn(series: ClosePoint[] | undefined, day: string): number | undefined {
+  if (!series || series.length === 0 || series[0].date > day) return undefined;
+
+  let low = 0;
+  let high = series.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (series[middle].date <= day) low = middle;
+    else high = middle - 1;
+  }
+  return series[low].close;
+}
+
+/**
+ * Converts an amount into the base currency at the FX close of the day (the first known rate before the series)
+ * Amounts without a rate stay unconverted
+ */
+export function convertOn(amount: number, currency: string, day: string, closes: CloseSeries, baseCurrency: string): number {
+  const symbol = getFxSymbol(currency, baseCurrency);
+  const rate = symbol ? getCloseOn(closes[symbol], day) ?? closes[symbol]?.[0]?.close : 1;
+  return amount * normalizeCurrency(currency).factor * (rate ?? 1);
+}
+
+/**
+ * Days of the chart: the first and last day, weekdays (weekly: the last weekday of each week) and the transaction days
+ */
+function getChartDays(from: Date, to: Date, transactionDays: Set<string>, interval: 'daily' | 'weekly'): string[] {
+  const days: string[] = [];
+  const first = toDateKey(from);
+  const last = toDateKey(to);
+
+  for (const date = new Date(from.getFullYear(), from.getMonth(), from.getDate()); toDateKey(date) <= last; date.setDate(date.getDate() + 1)) {
+    const day = toDateKey(date);
+    const weekday = date.getDay();
+    const isIncluded = interval === 'daily' ? weekday !== 0 && weekday !== 6 : weekday === 5;
+    if (isIncluded || transactionDays.has(day) || day === first || day === last) days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Reconstructs the value of the portfolio on each day of the range
+ * Tickers without a close on a day are valued at their cost basis
+ */
+export function buildPortfolioHistory({
+  transactions,
+  closes,
+  currencies,
+  baseCurrency,
+  from,
+  to,
+  interval,
+}: PortfolioHistoryOptions): PortfolioValuePoint[] {
+  const sorted = sortTransactions(transactions).filter((transaction) => getQuantitySign(transaction.type) !== 0);
+  const days = getChartDays(from, to, new Set(sorted.map((transaction) => toDateKey(transaction.date))), interval);
+
+  const toBase = (amount: number, currency: string, day: string) => convertOn(amount, currency, day, closes, baseCurrency);
+
+  const getCostBasis = (lots: Lot[]) =>
+    lots.reduce((sum, lot) => sum + toBase(lot.remainingQuantity * lot.costPerShare, lot.currency, toDateKey(lot.date)), 0);
+
+  // The lots are matched in a single pass, each day reads the open lots after its transactions
+  const matcher = createLotMatcher();
+  let applied = 0;
+  let openLots: Lot[] = [];
+
+  return days.map((day) => {
+    const dayTransactions: Transaction[] = [];
+    while (applied < sorted.length && toDateKey(sorted[applied].date) <= day) {
+      dayTransactions.push(sorted[applied]);
+      matcher.apply(sorted[applied]);
+      applied++;
+    }
+    if (dayTransactions.length > 0) {
+      openLots = matcher.getOpenLots();
+    }
+
+    const lotsByTicker = new Map<string, Lot[]>();
+    openLots.forEach((lot) => lotsByTicker.set(lot.ticker, [...(lotsByTicker.get(lot.ticker) ?? []), lot]));
+
+    let value = 0;
+    lotsByTicker.forEach((lots, ticker) => {
+      const close = getCloseOn(closes[ticker], day);
+      if (close === undefined) {
+        value += getCostBasis(lots);
+        return;
+      }
+      const quantity = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+      value += toBase(quantity * close, currencies[ticker] ?? lots[0].currency, day);
+    });
+
+    return {
+      date: day,
+      value,
+      invested: getCostBasis(openLots),
+      // Transactions before the range are part of the first point's holdings, not listed
+      transactions: dayTransactions.filter((transaction) => toDateKey(transaction.date) >= days[0]),
+    };
+  });
+}
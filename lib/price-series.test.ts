@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PricePoint, StockSplit } from './market-data';
+import { createLocalStore, setCacheStore } from './market-data-cache';
+import { getPriceSeries } from './price-series';
+
+// Provider returning split-adjusted closes of 100 (unadjusted) per day and the splits known "today"
+const provider = vi.hoisted(() => ({
+  splits: [] as StockSplit[],
+  getHistoricalPrices: vi.fn(),
+  getDividends: vi.fn(async () => []),
+  getSplits: vi.fn(),
+}));
+
+vi.mock('./market-data', () => ({
+  getMarketDataProvider: () => provider,
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const options = { interval: 'daily' as const, adjustSplits: true, adjustDividends: false };
+
+beforeEach(() => {
+  setCacheStore(createLocalStore(null));
+  provider.splits = [];
+  provider.getHistoricalPrices.mockImplementation(async (_ticker: string, start: Date, end: Date) => {
+    const points: PricePoint[] = [];
+    for (let time = start.getTime(); time < end.getTime(); time += DAY) {
+      const factor = provider.splits
+        .filter((split) => split.date.getTime() > time)
+        .reduce((product, split) => product * split.ratio, 1);
+      points.push({ date: new Date(time), close: 100 / factor });
+    }
+    return points;
+  });
+  provider.getSplits.mockImplementation(async (_ticker: string, start: Date) =>
+    provider.splits.filter((split) => split.date >= start)
+  );
+});
+
+describe('getPriceSeries', () => {
+  it('fetches only the missing days of a cached range', async () => {
+    await getPriceSeries('ABC', '2024-01-01', '2024-01-10', options);
+    provider.getHistoricalPrices.mockClear();
+
+    const series = await getPriceSeries('ABC', '2024-01-01', '2024-01-20', options);
+
+    expect(provider.getHistoricalPrices).toHaveBeenCalledTimes(1);
+    expect(provider.getHistoricalPrices.mock.calls[0][1]).toEqual(new Date('2024-01-11'));
+    expect(series.points).toHaveLength(20);
+  });
+
+  it('fetches the whole range again when a new split shows up while extending it', async () => {
+    await getPriceSeries('ABC', '2024-01-01', '2024-01-10', options);
+    provider.splits = [{ date: new Date('2024-01-15'), ratio: 2 }];
+    provider.getHistoricalPrices.mockClear();
+
+    const series = await getPriceSeries('ABC', '2024-01-01', '2024-01-20', options);
+
+    expect(provider.getHistoricalPrices.mock.calls.at(-1)?.[1]).toEqual(new Date('2024-01-01'));
+    expect(series.points[0].close).toBe(50);
+    expect(series.points.every((point) => point.date >= '2024-01-15' || point.close === 50)).toBe(true);
+    expect(series.splits).toEqual([{ date: '2024-01-15', ratio: 2 }]);
+  });
+});
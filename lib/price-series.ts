@@ -0,0 +1,267 @@
+import { getMarketDataProvider, DividendPayment, PricePoint, StockSplit } from './market-data';
+import { cacheKey, readCache, revalidate, writeCache } from './market-data-cache';
+
+/**
+ * OHLC price series of arbitrary ranges, served by /api/stock/[ticker]/prices
+ * The daily prices of a ticker are cached as one contiguous range, a request outside of it
+ * only fetches the missing days
+ */
+
+export type PriceInterval = 'daily' | 'weekly' | 'monthly';
+
+export const PRICE_INTERVALS: PriceInterval[] = ['daily', 'weekly', 'monthly'];
+
+export interface PriceSeriesOptions {
+  interval: PriceInterval;
+  adjustSplits: boolean; // Prices before a split in the shares after it
+  adjustDividends: boolean; // Prices before a dividend reduced by it (total return, relative to the end of the range)
+}
+
+// Prices of one day, week or month (date: first trading day)
+export interface OHLCPoint {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface PriceSeries {
+  ticker: string;
+  from: string;
+  to: string;
+  interval: PriceInterval;
+  adjustedForSplits: boolean;
+  adjustedForDividends: boolean;
+  points: OHLCPoint[];
+  dividends: { date: string; amount: number }[]; // Adjusted like the prices
+  splits: { date: string; ratio: number }[];
+  fetched: boolean; // Whether missing days were fetched from the provider
+}
+
+// Cached daily data of a ticker from `from` to `to` (YYYY-MM-DD, inclusive)
+interface CachedSeries {
+  from: string;
+  to: string;
+  points: PricePoint[];
+  dividends: DividendPayment[];
+  splits: StockSplit[]; // All splits from `from` until the last fetch (split-adjusted prices refer to them)
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a date as YYYY-MM-DD in UTC (provider dates are trading days)
+ */
+function toDayKey(date: Date): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
+function addDays(day: string, days: number): string {
+  return toDayKey(new Date(Date.parse(day) + days * DAY));
+}
+
+function mergeByDay<T extends { date: Date }>(existing: T[], fetched: T[]): T[] {
+  const byDay = new Map(existing.map((item) => [toDayKey(item.date), item]));
+  fetched.forEach((item) => byDay.set(toDayKey(item.date), item));
+  return Array.from(byDay.values()).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Fetches the daily prices and dividends of a range (inclusive) and the splits since its start
+ */
+async function fetchRange(ticker: string, from: string, to: string) {
+  const provider = getMarketDataProvider();
+  const start = new Date(from);
+  const end = new Date(Date.parse(to) + DAY);
+  console.log(`[${ticker}] Fetching daily prices from ${from} to ${to}`);
+
+  const [points, dividends, splits] = await Promise.all([
+    provider.getHistoricalPrices(ticker, start, end),
+    provider.getDividends(ticker, start, end),
+    provider.getSplits(ticker, start, new Date()),
+  ]);
+  return { points, dividends, splits };
+}
+
+/**
+ * Daily data of a range from the cache, fetching only the days outside of the cached range
+ * Today is never cached as its prices still change
+ */
+async function getDailySeries(ticker: string, from: string, to: string): Promise<{ series: CachedSeries; fetched: boolean }> {
+  const lastClosedDay = addDays(toDayKey(new Date()), -1);
+  const lookup = await readCache<CachedSeries>('prices', ticker);
+  let series: CachedSeries;
+  let fetched = false;
+
+  if (!lookup) {
+    series = { from, to, ...(await fetchRange(ticker, from, to)) };
+    fetched = true;
+  } else {
+    const { from: cachedFrom, to: cachedTo, points, dividends, splits } = lookup.result;
+    series = { from: cachedFrom, to: cachedTo, points, dividends, splits };
+
+    // Missing days before and after the cached range (a gap in between is fetched as well)
+    const missing: [string, string][] = [];
+    if (from < series.from) missing.push([from, addDays(series.from, -1)]);
+    if (to > series.to) missing.push([addDays(series.to, 1), to]);
+
+    for (const [missingFrom, missingTo] of missing) {
+      const range = await fetchRange(ticker, missingFrom, missingTo);
+
+      // A split since the cached fetch changes all split-adjusted prices before it,
+      // so the cached days can't be combined with the new ones and the whole range is fetched again
+      const knownSplits = new Set(series.splits.map((split) => toDayKey(split.date)));
+      const hasNewSplit = range.splits.some(
+        (split) => toDayKey(split.date) >= series.from && !knownSplits.has(toDayKey(split.date))
+      );
+      if (hasNewSplit) {
+        const fullFrom = from < series.from ? from : series.from;
+        const fullTo = to > series.to ? to : series.to;
+        series = { from: fullFrom, to: fullTo, ...(await fetchRange(ticker, fullFrom, fullTo)) };
+        fetched = true;
+        break;
+      }
+
+      series.points = mergeByDay(series.points, range.points);
+      series.dividends = mergeByDay(series.dividends, range.dividends);
+      // Splits are fetched until today, so the later fetch has the complete list
+      series.splits = missingFrom < series.from ? range.splits : mergeByDay(series.splits, range.splits);
+      series.from = missingFrom < series.from ? missingFrom : series.from;
+      series.to = missingTo > series.to ? missingTo : series.to;
+      fetched = true;
+    }
+
+    // A new split changes all split-adjusted prices, so stale ranges are fetched again completely
+    if (lookup.stale && !fetched) {
+      revalidate(cacheKey('prices', ticker), async () => {
+        const cachedRange = { from: series.from, to: series.to };
+        await writeCache('prices', ticker, { ...cachedRange, ...(await fetchRange(ticker, cachedRange.from, cachedRange.to)) });
+      });
+    }
+  }
+
+  if (fetched) {
+    const cachedTo = series.to < lastClosedDay ? series.to : lastClosedDay;
+    if (series.from <= cachedTo) {
+      await writeCache('prices', ticker, {
+        ...series,
+        to: cachedTo,
+        points: series.points.filter((point) => toDayKey(point.date) <= cachedTo),
+        dividends: series.dividends.filter((dividend) => toDayKey(dividend.date) <= cachedTo),
+      });
+    }
+  }
+
+  return { series, fetched };
+}
+
+/**
+ * Factor turning split-adjusted into unadjusted values: product of the splits after the day
+ */
+function getSplitFactor(day: string, splits: StockSplit[]): number {
+  return splits.filter((split) => toDayKey(split.date) > day).reduce((factor, split) => factor * split.ratio, 1);
+}
+
+/**
+ * Dividend adjustment factor per day: product of (1 - dividend / close before the ex-date)
+ * over the dividends after the day
+ */
+function getDividendFactors(points: PricePoint[], dividends: DividendPayment[]): number[] {
+  const factors = new Array<number>(points.length).fill(1);
+  let factor = 1;
+  let dividendIndex = dividends.length - 1;
+
+  for (let i = points.length - 1; i >= 0; i--) {
+    // This is the last close before the ex-date of all later dividends not yet applied
+    const day = toDayKey(points[i].date);
+    while (dividendIndex >= 0 && toDayKey(dividends[dividendIndex].date) > day) {
+      if (points[i].close > 0) factor *= 1 - dividends[dividendIndex].amount / points[i].close;
+      dividendIndex--;
+    }
+    factors[i] = factor;
+  }
+  return factors;
+}
+
+function getPeriodKey(day: string, interval: PriceInterval): string {
+  if (interval === 'monthly') return day.slice(0, 7);
+  if (interval === 'weekly') {
+    // Monday of the week
+    const weekday = (new Date(day).getUTCDay() + 6) % 7;
+    return addDays(day, -weekday);
+  }
+  return day;
+}
+
+/**
+ * Combines daily prices into weekly or monthly ones
+ */
+function aggregate(points: OHLCPoint[], interval: PriceInterval): OHLCPoint[] {
+  if (interval === 'daily') return points;
+
+  const periods = new Map<string, OHLCPoint>();
+  points.forEach((point) => {
+    const key = getPeriodKey(point.date, interval);
+    const period = periods.get(key);
+    if (!period) {
+      periods.set(key, { ...point });
+    } else {
+      period.high = Math.max(period.high, point.high);
+      period.low = Math.min(period.low, point.low);
+      period.close = point.close;
+      if (point.volume !== undefined) period.volume = (period.volume ?? 0) + point.volume;
+    }
+  });
+  return Array.from(periods.values());
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Returns the OHLC series of a ticker from `from` to `to` (YYYY-MM-DD, inclusive)
+ */
+export async function getPriceSeries(ticker: string, from: string, to: string, options: PriceSeriesOptions): Promise<PriceSeries> {
+  const tickerUpper = ticker.toUpperCase();
+  const { series, fetched } = await getDailySeries(tickerUpper, from, to);
+
+  const inRange = <T extends { date: Date }>(items: T[]) =>
+    items.filter((item) => toDayKey(item.date) >= from && toDayKey(item.date) <= to);
+  const daily = inRange(series.points);
+  const dividends = inRange(series.dividends);
+  const dividendFactors = options.adjustDividends ? getDividendFactors(daily, dividends) : [];
+
+  const points = daily.map((point, index): OHLCPoint => {
+    const day = toDayKey(point.date);
+    const splitFactor = options.adjustSplits ? 1 : getSplitFactor(day, series.splits);
+    const factor = splitFactor * (dividendFactors[index] ?? 1);
+    return {
+      date: day,
+      open: round((point.open ?? point.close) * factor),
+      high: round((point.high ?? point.close) * factor),
+      low: round((point.low ?? point.close) * factor),
+      close: round(point.close * factor),
+      volume: point.volume === undefined ? undefined : Math.round(point.volume / splitFactor),
+    };
+  });
+
+  return {
+    ticker: tickerUpper,
+    from,
+    to,
+    interval: options.interval,
+    adjustedForSplits: options.adjustSplits,
+    adjustedForDividends: options.adjustDividends,
+    points: aggregate(points, options.interval),
+    dividends: dividends.map((dividend) => {
+      const day = toDayKey(dividend.date);
+      const splitFactor = options.adjustSplits ? 1 : getSplitFactor(day, series.splits);
+      return { date: day, amount: round(dividend.amount * splitFactor) };
+    }),
+    splits: inRange(series.splits).map((split) => ({ date: toDayKey(split.date), ratio: split.ratio })),
+    fetched,
+  };
+}
@@ -0,0 +1,181 @@
+import { Transaction } from './db';
+import { toDateKey } from './fx';
+import { buildPortfolioHistory, CloseSeries, convertOn, getCloseOn } from './portfolio-history';
+
+/**
+ * Time-weighted (TWR) and money-weighted (XIRR) returns of a period
+ * TWR chains the daily returns and is independent of the timing of contributions,
+ * XIRR is the annual interest rate of the dated cash flows (start value, contributions, withdrawals, end value)
+ * The change in value of a period is split into the market gain and the net contributions
+ */
+
+// Money added to (positive) or taken out of (negative) the holdings, in the base currency
+export interface CashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface PeriodReturns {
+  from: string;
+  to: string;
+  startValue: number; // Value of the holdings at the end of the day before the period
+  endValue: number;
+  contributions: number; // Purchases and incoming transfers, at their actual cost
+  withdrawals: number; // Sales, outgoing transfers and dividends
+  netContributions: number; // contributions - withdrawals
+  marketGain: number; // Change in value not caused by contributions: endValue - startValue - netContributions
+  marketGainPercent?: number; // Market gain relative to the average capital of the period (Modified Dietz)
+  twr?: number; // Cumulative time-weighted return (0.05 = 5%)
+  twrAnnualized?: number; // Only for periods of at least a year
+  xirr?: number; // Money-weighted return per year
+}
+
+export interface ReturnsOptions {
+  transactions: Transaction[];
+  closes: CloseSeries;
+  currencies: Record<string, string>; // Quote currency by ticker
+  baseCurrency: string;
+  from: Date;
+  to: Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const YEAR = 365.25 * DAY;
+
+/**
+ * Cash flow of a transaction: purchases and sales at their amount, transfers at the close of the day
+ * (their price is the original purchase price) and dividends net of taxes as withdrawals
+ */
+export function getCashFlow(
+  transaction: Transaction,
+  closes: CloseSeries,
+  currencies: Record<string, string>,
+  baseCurrency: string
+): CashFlow {
+  const day = toDateKey(transaction.date);
+  const toBase = (amount: number, currency: string) => convertOn(amount, currency, day, closes, baseCurrency);
+  const fees = transaction.fees || 0;
+
+  let amount: number;
+  switch (transaction.type) {
+    case 'buy':
+      amount = toBase(transaction.quantity * transaction.price + fees, transaction.currency);
+      break;
+    case 'sell':
+      amount = -toBase(transaction.quantity * transaction.price - fees, transaction.currency);
+      break;
+    case 'dividend':
+      amount = -toBase(transaction.quantity * transaction.price - (transaction.taxes || 0), transaction.currency);
+      break;
+    default: {
+      const close = getCloseOn(closes[transaction.ticker], day);
+      const value = close !== undefined
+        ? toBase(transaction.quantity * close, currencies[transaction.ticker] ?? transaction.currency)
+        : toBase(transaction.quantity * transaction.price, transaction.currency);
+      amount = transaction.type === 'transfer-in' ? value : -value;
+    }
+  }
+  return { date: day, amount };
+}
+
+/**
+ * Annual rate at which the discounted cash flows sum up to zero (Newton's method, bisection as fallback)
+ * Cash flows are from the investor's view: payments into the portfolio negative, values received positive
+ */
+export function xirr(cashFlows: { date: Date; amount: number }[]): number | undefined {
+  const flows = cashFlows.filter((flow) => flow.amount !== 0);
+  if (!flows.some((flow) => flow.amount > 0) || !flows.some((flow) => flow.amount < 0)) return undefined;
+
+  const start = Math.min(...flows.map((flow) => flow.date.getTime()));
+  const years = flows.map((flow) => (flow.date.getTime() - start) / YEAR);
+  const presentValue = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = presentValue(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    const slope = derivative(rate);
+    if (!slope || !isFinite(slope)) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection between -99.99% and +100000% p.a.
+  let low = -0.9999;
+  let high = 1000;
+  if (Math.sign(presentValue(low)) === Math.sign(presentValue(high))) return undefined;
+  for (let i = 0; i < 200; i++) {
+    const middle = (low + high) / 2;
+    if (Math.sign(presentValue(middle)) === Math.sign(presentValue(low))) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Returns of the given transactions (one position, one bank or the whole portfolio) from `from` to `to`
+ */
+export function calculateReturns({ transactions, closes, currencies, baseCurrency, from, to }: ReturnsOptions): PeriodReturns {
+  // The first point is the day before the period: the holdings the period starts with
+  const dayBefore = new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1);
+  const points = buildPortfolioHistory({ transactions, closes, currencies, baseCurrency, from: dayBefore, to, interval: 'daily' });
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  const flows = transactions
+    .filter((transaction) => toDateKey(transaction.date) > first.date && toDateKey(transaction.date) <= last.date)
+    .map((transaction) => getCashFlow(transaction, closes, currencies, baseCurrency));
+
+  // Daily returns with contributions at the start and withdrawals at the end of the day
+  let growth = 1;
+  let hasReturns = false;
+  let flowIndex = 0;
+  const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+  for (let i = 1; i < points.length; i++) {
+    let flow = 0;
+    while (flowIndex < sortedFlows.length && sortedFlows[flowIndex].date <= points[i].date) {
+      flow += sortedFlows[flowIndex++].amount;
+    }
+    const base = points[i - 1].value + Math.max(flow, 0);
+    if (base <= 0) continue;
+    growth *= 1 + (points[i].value - flow - points[i - 1].value) / base;
+    hasReturns = true;
+  }
+
+  const years = (to.getTime() - from.getTime()) / YEAR;
+  const twr = hasReturns ? growth - 1 : undefined;
+  const toDate = (day: string) => new Date(`${day}T00:00:00`);
+
+  // Contributions weighted by the share of the period they were invested
+  const periodDays = Math.max((toDate(last.date).getTime() - toDate(first.date).getTime()) / DAY, 1);
+  const netContributions = flows.reduce((sum, flow) => sum + flow.amount, 0);
+  const marketGain = last.value - first.value - netContributions;
+  const averageCapital = flows.reduce(
+    (sum, flow) => sum + flow.amount * ((toDate(last.date).getTime() - toDate(flow.date).getTime()) / DAY / periodDays),
+    first.value
+  );
+
+  return {
+    from: toDateKey(from),
+    to: last.date,
+    startValue: first.value,
+    endValue: last.value,
+    contributions: flows.filter((flow) => flow.amount > 0).reduce((sum, flow) => sum + flow.amount, 0),
+    withdrawals: -flows.filter((flow) => flow.amount < 0).reduce((sum, flow) => sum + flow.amount, 0),
+    netContributions,
+    marketGain,
+    marketGainPercent: averageCapital > 0 ? marketGain / averageCapital : undefined,
+    twr,
+    twrAnnualized: twr !== undefined && years >= 1 ? Math.pow(1 + twr, 1 / years) - 1 : undefined,
+    xirr: xirr([
+      { date: toDate(first.date), amount: -first.value },
+      ...flows.map((flow) => ({ date: toDate(flow.date), amount: -flow.amount })),
+      { date: toDate(last.date), amount: last.value },
+    ]),
+  };
+}
@@ -0,0 +1,278 @@
+import { getMarketDataProvider, DividendPayment, FieldSources, MarketQuote } from './market-data';
+import { cached, CachedResult, readCache, revalidate, writeCache } from './market-data-cache';
+
+/**
+ * Server-side loading and caching of the stock data served by /api/stock (single tickers and batches)
+ */
+
+// Current quote as returned by /api/stock/[ticker]
+export interface StockData {
+  ticker: string;
+  currentPrice: number;
+  currency: string;
+  previousClose?: number;
+  dividendRate?: number; // Forward dividend (estimated for next year)
+  dividendYield?: number; // Forward yield
+  trailingDividendRate?: number; // Trailing dividend (current year)
+  trailingDividendYield?: number; // Trailing yield
+  name?: string;
+  source?: string; // Provider of the price
+  fieldSources?: FieldSources; // Fields filled in by fallback providers
+}
+
+// Year data as returned by /api/stock/[ticker]/history
+export interface HistoricalData {
+  ticker: string;
+  year: number; // Year the prices refer to (current year unless ?year= is given)
+  yearStartPrice?: number; // Price at year start (for YTD performance)
+  yearEndPrice?: number; // Last price of the year (latest price for the current year)
+  previousClose?: number; // Yesterday's close (for daily change)
+  dividends: DividendPayment[];
+  currentYearDividends: number; // Sum of dividends paid this year
+  nextYearEstimatedDividends?: number; // Estimated dividends for next year
+}
+
+// Quote fields the historical data is derived from
+type QuoteBasics = Pick<MarketQuote, 'previousClose' | 'dividendRate'>;
+
+function toStockData(ticker: string, quote: MarketQuote): StockData {
+  return {
+    ticker,
+    currentPrice: quote.price,
+    currency: quote.currency,
+    previousClose: quote.previousClose,
+    name: quote.name,
+    dividendRate: quote.dividendRate,
+    dividendYield: quote.dividendYield,
+    trailingDividendRate: quote.trailingDividendRate,
+    trailingDividendYield: quote.trailingDividendYield,
+    source: quote.source,
+    fieldSources: quote.fieldSources,
+  };
+}
+
+/**
+ * Fetches quotes with one provider call and caches them (unknown tickers map to null)
+ */
+async function loadStockQuotes(tickers: string[]): Promise<Record<string, CachedResult<StockData> | null>> {
+  const quotes = await getMarketDataProvider().getQuotes(tickers);
+  const results: Record<string, CachedResult<StockData> | null> = {};
+  for (const ticker of tickers) {
+    const quote = quotes[ticker];
+    results[ticker] = quote ? await writeCache('quote', ticker, toStockData(ticker, quote)) : null;
+  }
+  return results;
+}
+
+/**
+ * Current quotes of several tickers, uncached tickers are fetched with one provider call,
+ * stale ones are refreshed in the background
+ * Unknown tickers map to null, provider errors are thrown
+ */
+export async function getStockQuotes(tickers: string[]): Promise<Record<string, CachedResult<StockData> | null>> {
+  const results: Record<string, CachedResult<StockData> | null> = {};
+  const missing: string[] = [];
+  const stale: string[] = [];
+  for (const ticker of Array.from(new Set(tickers.map((t) => t.toUpperCase())))) {
+    const lookup = await readCache<StockData>('quote', ticker);
+    if (lookup) {
+      results[ticker] = lookup.result;
+      if (lookup.stale) stale.push(ticker);
+    } else {
+      missing.push(ticker);
+    }
+  }
+
+  if (stale.length > 0) {
+    revalidate(`quote:${stale.join(',')}`, async () => {
+      await loadStockQuotes(stale);
+    });
+  }
+  if (missing.length > 0) {
+    Object.assign(results, await loadStockQuotes(missing));
+  }
+
+  return results;
+}
+
+/**
+ * Current quote of a ticker (null if unknown)
+ */
+export async function getStockQuote(ticker: string): Promise<CachedResult<StockData> | null> {
+  return (await getStockQuotes([ticker]))[ticker.toUpperCase()];
+}
+
+/**
+ * Year start/end prices, previous close and dividends of a ticker for a year
+ * A quote already at hand saves the provider call for previousClose and the forward dividend
+ */
+export async function getHistoricalData(
+  ticker: string,
+  year: number,
+  knownQuote?: QuoteBasics | null
+): Promise<CachedResult<HistoricalData>> {
+  const tickerUpper = ticker.toUpperCase();
+  const data = await cached('history', `${tickerUpper}|${year}`, () => {
+    console.log(`[${tickerUpper}] Cache miss or expired, fetching fresh data...`);
+    return loadHistoricalData(tickerUpper, year, knownQuote);
+  });
+  if (data.cached) {
+    console.log(`[${tickerUpper}] Returning cached data (age: ${data.cacheAge}s${data.stale ? ', stale' : ''})`);
+    console.log(`[${tickerUpper}] Cached yearStartPrice: ${data.yearStartPrice}`);
+  }
+  return data;
+}
+
+async function loadHistoricalData(
+  tickerUpper: string,
+  year: number,
+  knownQuote?: QuoteBasics | null
+): Promise<HistoricalData> {
+  const provider = getMarketDataProvider();
+
+  // The quote is fetched at most once
+  let loadedQuote = knownQuote;
+  const loadQuote = async (): Promise<QuoteBasics | null> => {
+    if (loadedQuote === undefined) {
+      loadedQuote = await provider.getQuote(tickerUpper);
+    }
+    return loadedQuote;
+  };
+
+  const currentYear = new Date().getFullYear();
+  const yearStart = new Date(year, 0, 1);
+  const today = new Date();
+  const yearEnd = year < currentYear ? new Date(year, 11, 31, 23, 59, 59) : today;
+
+  // Fetch historical prices
+  let yearStartPrice: number | undefined;
+  let yearEndPrice: number | undefined;
+  let previousClose: number | undefined;
+
+  try {
+    // Get historical quotes from year start to today
+    console.log(`[${tickerUpper}] Fetching historical quotes from ${yearStart.toISOString()} to ${yearEnd.toISOString()}`);
+
+    const historicalQuotes = await provider.getHistoricalPrices(tickerUpper, yearStart, yearEnd);
+
+    console.log(`[${tickerUpper}] Historical quotes received:`, {
+      count: historicalQuotes?.length || 0,
+      hasData: !!historicalQuotes,
+      isArray: Array.isArray(historicalQuotes),
+      firstItem: historicalQuotes?.[0],
+      lastItem: historicalQuotes?.[historicalQuotes.length - 1],
+    });
+
+    if (historicalQuotes && historicalQuotes.length > 0) {
+      // Year start price (first available data point)
+      yearStartPrice = historicalQuotes[0].close;
+      console.log(`[${tickerUpper}] Year start price: ${yearStartPrice} (date: ${historicalQuotes[0].date})`);
+
+      // Year end price (last available data point)
+      yearEndPrice = historicalQuotes[historicalQuotes.length - 1].close;
+
+      // Previous close (second to last, as last might be today's ongoing)
+      if (historicalQuotes.length >= 2) {
+        previousClose = historicalQuotes[historicalQuotes.length - 2].close;
+        console.log(`[${tickerUpper}] Previous close: ${previousClose} (date: ${historicalQuotes[historicalQuotes.length - 2].date})`);
+      } else if (historicalQuotes.length === 1) {
+        previousClose = historicalQuotes[0].close;
+        console.log(`[${tickerUpper}] Previous close (only 1 data point): ${previousClose}`);
+      }
+    } else {
+      console.warn(`[${tickerUpper}] No historical quotes available - trying alternative method`);
+
+      // Alternative: Get quote and use its previousClose
+      try {
+        const quote = await loadQuote();
+        if (quote) {
+          previousClose = quote.previousClose;
+          console.log(`[${tickerUpper}] Got previousClose from quote: ${previousClose}`);
+
+          // For yearStartPrice, we might need to fetch specifically from Jan 1
+          const jan1 = new Date(year, 0, 1);
+          const jan5 = new Date(year, 0, 5); // First week to ensure we get data
+
+          console.log(`[${tickerUpper}] Trying to fetch Jan 1 price from ${jan1.toISOString()} to ${jan5.toISOString()}`);
+          const earlyYearQuotes = await provider.getHistoricalPrices(tickerUpper, jan1, jan5);
+
+          if (earlyYearQuotes && earlyYearQuotes.length > 0) {
+            yearStartPrice = earlyYearQuotes[0].close;
+            console.log(`[${tickerUpper}] Got yearStartPrice from early year fetch: ${yearStartPrice}`);
+          } else {
+            console.warn(`[${tickerUpper}] Could not fetch yearStartPrice even with alternative method`);
+          }
+        }
+      } catch (altError) {
+        console.error(`[${tickerUpper}] Alternative method also failed:`, altError);
+      }
+    }
+  } catch (error) {
+    console.error(`[${tickerUpper}] Failed to fetch historical prices:`, {
+      error,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+
+  // Fetch dividend history
+  let dividends: DividendPayment[] = [];
+  let currentYearDividends = 0;
+
+  try {
+    // Get dividends from start of current year to 2 years in future
+    const futureDate = new Date(year + 2, 11, 31);
+    console.log(`[${tickerUpper}] Fetching dividends from ${yearStart.toISOString()} to ${futureDate.toISOString()}`);
+
+    dividends = await provider.getDividends(tickerUpper, yearStart, futureDate);
+
+    console.log(`[${tickerUpper}] Dividend history received: ${dividends.length} entries`);
+
+    dividends.forEach((dividend) => {
+      // Sum dividends for the requested year
+      if (dividend.date.getFullYear() === year) {
+        currentYearDividends += dividend.amount;
+      }
+      console.log(`[${tickerUpper}] Dividend: ${dividend.amount} on ${dividend.date.toISOString().split('T')[0]} (year: ${dividend.date.getFullYear()})`);
+    });
+    console.log(`[${tickerUpper}] Total dividends for ${year}: ${currentYearDividends}`);
+  } catch (error) {
+    console.error(`[${tickerUpper}] Failed to fetch dividends:`, error);
+  }
+
+  // Get forward dividend estimate from the quote
+  let nextYearEstimatedDividends: number | undefined;
+  try {
+    console.log(`[${tickerUpper}] Fetching quote for forward dividend estimate`);
+    const quote = await loadQuote();
+    if (quote && quote.dividendRate) {
+      nextYearEstimatedDividends = quote.dividendRate;
+      console.log(`[${tickerUpper}] Next year estimated dividends (forward): ${nextYearEstimatedDividends}`);
+    } else {
+      console.log(`[${tickerUpper}] No forward dividend rate available in quote`);
+    }
+  } catch (error) {
+    console.error(`[${tickerUpper}] Failed to fetch forward dividend:`, error);
+  }
+
+  const historicalData: HistoricalData = {
+    ticker: tickerUpper,
+    year,
+    yearStartPrice,
+    yearEndPrice,
+    previousClose,
+    dividends,
+    currentYearDividends,
+    nextYearEstimatedDividends,
+  };
+
+  console.log(`[${tickerUpper}] ===== FINAL HISTORICAL DATA =====`);
+  console.log(`[${tickerUpper}] yearStartPrice: ${yearStartPrice} (${yearStartPrice ? 'SET' : 'MISSING!'})`);
+  console.log(`[${tickerUpper}] previousClose: ${previousClose} (${previousClose ? 'SET' : 'MISSING!'})`);
+  console.log(`[${tickerUpper}] dividends: ${dividends.length} entries`);
+  console.log(`[${tickerUpper}] currentYearDividends: ${currentYearDividends}`);
+  console.log(`[${tickerUpper}] nextYearEstimatedDividends: ${nextYearEstimatedDividends}`);
+  console.log(`[${tickerUpper}] ================================`);
+
+  return historicalData;
+}
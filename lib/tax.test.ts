@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { Bank, Position, Transaction } from './db';
+import { getFxRateKey } from './fx';
+import { calculateTaxReports, calculateVorabpauschale } from './tax';
+
+const bank: Bank = { id: 1, name: 'Broker', createdAt: new Date(2024, 0, 1) };
+
+const position = (isin: string, ticker: string, currency: string): Position => ({
+  bankId: 1,
+  isin,
+  ticker,
+  assetType: 'stock',
+  purchaseDate: new Date(2024, 0, 10),
+  quantity: 10,
+  purchasePrice: 100,
+  currency,
+  createdAt: new Date(2024, 0, 1),
+});
+
+const transaction = (fields: Partial<Transaction>): Transaction => ({
+  bankId: 1,
+  isin: 'US0378331005',
+  ticker: 'AAPL',
+  type: 'buy',
+  date: new Date(2024, 0, 10),
+  quantity: 10,
+  price: 100,
+  currency: 'USD',
+  fees: 0,
+  taxes: 0,
+  createdAt: new Date(2024, 0, 1),
+  ...fields,
+});
+
+describe('calculateTaxReports', () => {
+  it('converts a USD sale into EUR at the rates of the purchase and the sale', () => {
+    const buyDate = new Date(2024, 0, 10);
+    const sellDate = new Date(2024, 5, 10);
+    const rates = {
+      [getFxRateKey('USD', 'EUR', buyDate)]: 0.9,
+      [getFxRateKey('USD', 'EUR', sellDate)]: 0.8,
+      [getFxRateKey('USD', 'EUR')]: 0.95,
+    };
+
+    const [report] = calculateTaxReports(
+      [bank],
+      [position('US0378331005', 'AAPL', 'USD')],
+      [
+        transaction({ id: 1, date: buyDate, price: 100 }),
+        transaction({ id: 2, type: 'sell', date: sellDate, price: 150, taxes: 10 }),
+      ],
+      2024,
+      0,
+      rates
+    );
+
+    // Proceeds 1500 USD * 0.8 - cost 1000 USD * 0.9
+    expect(report.stockGains).toBeCloseTo(300);
+    expect(report.taxesWithheld).toBeCloseTo(8);
+    expect(report.missingRates).toEqual([]);
+  });
+
+  it('converts dividends quoted in pence into EUR', () => {
+    const date = new Date(2024, 2, 1);
+    const [report] = calculateTaxReports(
+      [bank],
+      [position('GB0007980591', 'BP.L', 'GBX')],
+      [
+        transaction({ isin: 'GB0007980591', ticker: 'BP.L', currency: 'GBX', quantity: 100, price: 500 }),
+        transaction({ isin: 'GB0007980591', ticker: 'BP.L', type: 'dividend', date, currency: 'GBX', quantity: 100, price: 20 }),
+      ],
+      2024,
+      0,
+      { [getFxRateKey('GBP', 'EUR', date)]: 1.2 }
+    );
+
+    // 100 * 20 pence = 20 GBP
+    expect(report.dividends).toBeCloseTo(24);
+  });
+
+  it('reports missing rates of the transaction dates and leaves their amounts unconverted', () => {
+    const [report] = calculateTaxReports(
+      [bank],
+      [position('US0378331005', 'AAPL', 'USD')],
+      [
+        transaction({ id: 1 }),
+        transaction({ id: 2, type: 'sell', date: new Date(2024, 5, 10), price: 150 }),
+      ],
+      2024,
+      0,
+      // The current rate is no substitute for the rates of the transaction dates
+      { [getFxRateKey('USD', 'EUR')]: 0.95 }
+    );
+
+    expect(report.stockGains).toBeCloseTo(500);
+    expect(report.missingRates).toEqual([
+      { currency: 'USD', date: '2024-06-10' },
+      { currency: 'USD', date: '2024-01-10' },
+    ]);
+  });
+
+  it('lists private sales instead of including them in the capital income', () => {
+    const gold: Position = { ...position('DE000A0S9GB0', '4GLD.DE', 'EUR'), assetType: 'commodity' };
+    const [report] = calculateTaxReports(
+      [bank],
+      [gold],
+      [
+        transaction({ id: 1, isin: gold.isin, ticker: gold.ticker, currency: 'EUR' }),
+        transaction({ id: 2, isin: gold.isin, ticker: gold.ticker, currency: 'EUR', type: 'sell', date: new Date(2024, 5, 10), price: 120 }),
+      ],
+      2024,
+      0,
+      {}
+    );
+
+    expect(report.stockGains).toBe(0);
+    expect(report.otherGains).toBe(0);
+    expect(report.privateSales).toHaveLength(1);
+    expect(report.privateSales[0].realizedGain).toBeCloseTo(200);
+  });
+});
+
+describe('calculateVorabpauschale', () => {
+  it('deducts the Freistellungsauftrag left after the other income of the receipt year', () => {
+    const fund: Position = { ...position('IE00B4L5Y983', 'EUNL.DE', 'EUR'), assetType: 'etf', fundType: 'equity' };
+    const etf = { isin: fund.isin, ticker: fund.ticker, currency: 'EUR' };
+
+    const [report] = calculateVorabpauschale(
+      [{ ...bank, freistellungsauftrag: 500 }],
+      [fund],
+      [
+        transaction({ ...etf, date: new Date(2023, 0, 10), quantity: 1000, price: 100 }),
+        // 400 EUR dividends in the year the Vorabpauschale is received
+        transaction({ ...etf, type: 'dividend', date: new Date(2025, 2, 1), quantity: 1000, price: 400 / 0.7 / 1000 }),
+      ],
+      2024,
+      { 'EUNL.DE': { yearStartPrice: 100, yearEndPrice: 120 } },
+      0,
+      {}
+    );
+
+    // 1000 * 100 * 2.29% * 70% = 1603 Vorabpauschale, 30% Teilfreistellung
+    expect(report.taxableAmount).toBeCloseTo(1122.1);
+    expect(report.usedAllowance).toBeCloseTo(100);
+    expect(report.estimatedTax).toBeCloseTo((1122.1 - 100) * 0.25 * 1.055);
+  });
+});
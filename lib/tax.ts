@@ -0,0 +1,508 @@
+import { Bank, FundType, Position, Transaction } from './db';
+import { Lot, matchLots, RealizedSale } from './lots';
+import { isInvestmentFund } from './instruments';
+import { convertCurrency, normalizeCurrency, toDateKey } from './fx';
+
+/**
+ * German taxation of capital income (Abgeltungsteuer) per bank and year
+ * Every bank keeps its own loss pots and applies its own Freistellungsauftrag,
+ * so the report mirrors the Jahressteuerbescheinigung of each bank
+ * All amounts are converted into EUR at the rate of their transaction date
+ */
+
+export const ABGELTUNGSTEUER_RATE = 0.25;
+export const SOLI_RATE = 0.055;
+export const SPARER_PAUSCHBETRAG = 1000; // Single filers since 2023
+
+// Kirchensteuer rate: 8% in Bavaria and Baden-Württemberg, 9% elsewhere
+export type ChurchTaxRate = 0 | 0.08 | 0.09;
+
+// Teilfreistellung per fund type (§ 20 InvStG)
+export const TEILFREISTELLUNG: Record<FundType, number> = {
+  equity: 0.3,
+  mixed: 0.15,
+  'real-estate': 0.6,
+  'real-estate-foreign': 0.8,
+  other: 0,
+};
+
+export const FUND_TYPE_LABELS: Record<FundType, string> = {
+  equity: 'Aktienfonds (30%)',
+  mixed: 'Mischfonds (15%)',
+  'real-estate': 'Immobilienfonds (60%)',
+  'real-estate-foreign': 'Immobilienfonds Ausland (80%)',
+  other: 'Sonstiger Fonds (0%)',
+};
+
+// Basiszins for the Vorabpauschale, published yearly by the BMF (§ 18 Abs. 4 InvStG)
+export const BASISZINS: Record<number, number> = {
+  2018: 0.0087,
+  2019: 0.0052,
+  2020: 0.0007,
+  2021: -0.0045,
+  2022: -0.0005,
+  2023: 0.0255,
+  2024: 0.0229,
+  2025: 0.0253,
+  2026: 0.032,
+};
+
+// Basisertrag = price at year start * Basiszins * 70%
+const BASISERTRAG_FACTOR = 0.7;
+
+/**
+ * Loss pots of a bank: stock losses may only offset stock gains (Aktienverlusttopf),
+ * all other losses offset any capital income (allgemeiner Verlusttopf)
+ */
+export interface LossPots {
+  stock: number;
+  general: number;
+}
+
+/**
+ * Sale taxed as private sale (§ 23 EStG) and therefore not part of the capital income
+ */
+export interface PrivateSale {
+  ticker: string;
+  isin: string;
+  date: Date;
+  realizedGain: number; // EUR
+}
+
+/**
+ * Capital income of one bank in one year (before loss offsetting)
+ */
+export interface YearIncome {
+  stockGains: number;
+  stockLosses: number;
+  otherGains: number;
+  otherLosses: number;
+  dividends: number;
+  partialExemption: number; // Fund income already excluded via Teilfreistellung
+  taxesWithheld: number;
+  privateSales: PrivateSale[]; // Listed for the tax return, not included above
+}
+
+// Converts an amount into EUR at the rate of the given date (the current rate without date)
+type EurConverter = (amount: number, currency: string, date?: Date) => number;
+
+// FX rate into EUR that is needed but not loaded
+export interface MissingRate {
+  currency: string;
+  date?: string; // YYYY-MM-DD, none for the current rate
+}
+
+export interface BankTaxReport extends YearIncome {
+  bankId: number;
+  bankName: string;
+  year: number;
+  lossPotsCarriedIn: LossPots;
+  lossPotsCarriedOut: LossPots;
+  incomeAfterLosses: number;
+  freistellungsauftrag: number;
+  usedAllowance: number;
+  taxableIncome: number;
+  abgeltungsteuer: number;
+  soli: number;
+  kirchensteuer: number;
+  totalTax: number;
+  missingRates: MissingRate[]; // Their amounts are not converted
+}
+
+/**
+ * Returns the Teilfreistellung rate of an instrument (0 for anything but investment funds)
+ */
+export function getPartialExemptionRate(position?: Pick<Position, 'assetType' | 'fundType'>): number {
+  if (!position || !isInvestmentFund(position.assetType)) return 0;
+  return TEILFREISTELLUNG[position.fundType ?? 'equity'];
+}
+
+/**
+ * Creates a converter into EUR from rates keyed by getFxRateKey (e.g. USDEUR@2024-01-15)
+ * Only the rate of the date itself counts, amounts without it stay unconverted and the rate is collected
+ */
+function createEurConverter(rates: Record<string, number>, missingRates: Map<string, MissingRate>): EurConverter {
+  return (amount, currency, date) => {
+    const converted = convertCurrency(amount, currency, 'EUR', rates, date, true);
+    if (converted === undefined) {
+      const missing = { currency: normalizeCurrency(currency).currency, date: date && toDateKey(date) };
+      missingRates.set(`${missing.currency}@${missing.date ?? ''}`, missing);
+      return amount;
+    }
+    return converted;
+  };
+}
+
+/**
+ * Missing rates of several reports without duplicates
+ */
+export function mergeMissingRates(lists: MissingRate[][]): MissingRate[] {
+  return Array.from(
+    new Map(lists.flat().map((missing) => [`${missing.currency}@${missing.date ?? ''}`, missing])).values()
+  );
+}
+
+/**
+ * Whether an instrument is taxed as private sale (§ 23 EStG) instead of capital income
+ */
+function isPrivateSale(position: Pick<Position, 'assetType'>): boolean {
+  return position.assetType === 'crypto' || position.assetType === 'commodity';
+}
+
+/**
+ * Collects realized gains/losses and dividends of one bank in one year
+ * Fund income is reduced by its Teilfreistellung
+ */
+function collectYearIncome(
+  transactions: Transaction[],
+  sales: RealizedSale[],
+  instruments: Map<string, Position>,
+  year: number,
+  toEur: EurConverter
+): YearIncome {
+  const income: YearIncome = {
+    stockGains: 0,
+    stockLosses: 0,
+    otherGains: 0,
+    otherLosses: 0,
+    dividends: 0,
+    partialExemption: 0,
+    taxesWithheld: 0,
+    privateSales: [],
+  };
+
+  sales
+    .filter((sale) => sale.date.getFullYear() === year)
+    .forEach((sale) => {
+      // Instruments without a position (e.g. transferred in) are treated as stocks
+      const instrument = instruments.get(sale.isin);
+
+      // Proceeds at the rate of the sale, cost basis at the rate of each purchase
+      const realizedGain =
+        toEur(sale.proceeds, sale.currency, sale.date) -
+        sale.consumedLots.reduce((sum, lot) => sum + toEur(lot.costBasis, sale.currency, lot.date), 0);
+
+      // Crypto and physically backed commodities are private sales (§ 23 EStG), not capital income
+      if (instrument && isPrivateSale(instrument)) {
+        income.privateSales.push({ ticker: sale.ticker, isin: sale.isin, date: sale.date, realizedGain });
+        return;
+      }
+
+      const isStock = (instrument?.assetType ?? 'stock') === 'stock';
+      if (isStock) {
+        if (realizedGain >= 0) income.stockGains += realizedGain;
+        else income.stockLosses += -realizedGain;
+      } else {
+        const exemption = realizedGain * getPartialExemptionRate(instrument);
+        const gain = realizedGain - exemption;
+        if (gain >= 0) income.otherGains += gain;
+        else income.otherLosses += -gain;
+        income.partialExemption += exemption;
+      }
+      income.taxesWithheld += toEur(sale.taxesPaid, sale.currency, sale.date);
+    });
+
+  transactions
+    .filter((t) => t.type === 'dividend' && new Date(t.date).getFullYear() === year)
+    .forEach((t) => {
+      const date = new Date(t.date);
+      const gross = toEur(t.quantity * t.price, t.currency, date);
+      const exemption = gross * getPartialExemptionRate(instruments.get(t.isin));
+      income.dividends += gross - exemption;
+      income.partialExemption += exemption;
+      income.taxesWithheld += toEur(t.taxes || 0, t.currency, date);
+    });
+
+  return income;
+}
+
+/**
+ * Offsets losses (incl. carried pots) against gains and returns the remaining income
+ */
+function offsetLosses(income: YearIncome, carriedIn: LossPots): { income: number; carriedOut: LossPots } {
+  // Aktienverlusttopf: only against stock gains
+  let stockNet = income.stockGains - income.stockLosses - carriedIn.stock;
+  let stockPot = 0;
+  if (stockNet < 0) {
+    stockPot = -stockNet;
+    stockNet = 0;
+  }
+
+  // Allgemeiner Verlusttopf: against all remaining income
+  let total = stockNet + income.otherGains + income.dividends - income.otherLosses - carriedIn.general;
+  let generalPot = 0;
+  if (total < 0) {
+    generalPot = -total;
+    total = 0;
+  }
+
+  return { income: total, carriedOut: { stock: stockPot, general: generalPot } };
+}
+
+/**
+ * Calculates Abgeltungsteuer, Soli and Kirchensteuer for a taxable amount
+ * With Kirchensteuer the Abgeltungsteuer is reduced: e / (4 + k) (§ 32d Abs. 1 EStG)
+ */
+export function calculateCapitalTax(taxableIncome: number, churchTaxRate: ChurchTaxRate) {
+  const abgeltungsteuer = churchTaxRate > 0
+    ? taxableIncome / (4 + churchTaxRate)
+    : taxableIncome * ABGELTUNGSTEUER_RATE;
+  const soli = abgeltungsteuer * SOLI_RATE;
+  const kirchensteuer = abgeltungsteuer * churchTaxRate;
+
+  return {
+    abgeltungsteuer,
+    soli,
+    kirchensteuer,
+    totalTax: abgeltungsteuer + soli + kirchensteuer,
+  };
+}
+
+/**
+ * Calculates the tax report of every bank for the given year
+ * Loss pots are rolled forward from the first year with transactions
+ * `rates` holds the FX rates into EUR of the transaction dates (see getFxRateKey)
+ */
+export function calculateTaxReports(
+  banks: Bank[],
+  positions: Position[],
+  transactions: Transaction[],
+  year: number,
+  churchTaxRate: ChurchTaxRate,
+  rates: Record<string, number>
+): BankTaxReport[] {
+  const instruments = new Map(positions.map((p) => [p.isin, p]));
+  // Lots are matched across banks, so transferred shares keep their original cost
+  const { sales } = matchLots(transactions);
+
+  return banks
+    .filter((bank) => bank.id !== undefined)
+    .map((bank) => {
+      const bankTransactions = transactions.filter((t) => t.bankId === bank.id);
+      const bankSales = sales.filter((sale) => sale.bankId === bank.id);
+      const missingRates = new Map<string, MissingRate>();
+      const toEur = createEurConverter(rates, missingRates);
+      const firstYear = bankTransactions.reduce(
+        (min, t) => Math.min(min, new Date(t.date).getFullYear()),
+        year
+      );
+
+      // Roll loss pots forward until the requested year
+      let lossPots: LossPots = { stock: 0, general: 0 };
+      for (let y = firstYear; y < year; y++) {
+        const previous = offsetLosses(collectYearIncome(bankTransactions, bankSales, instruments, y, toEur), lossPots);
+        lossPots = previous.carriedOut;
+      }
+
+      const income = collectYearIncome(bankTransactions, bankSales, instruments, year, toEur);
+      const { income: incomeAfterLosses, carriedOut } = offsetLosses(income, lossPots);
+
+      const freistellungsauftrag = bank.freistellungsauftrag || 0;
+      const usedAllowance = Math.min(freistellungsauftrag, incomeAfterLosses);
+      const taxableIncome = incomeAfterLosses - usedAllowance;
+
+      return {
+        ...income,
+        bankId: bank.id!,
+        bankName: bank.name,
+        year,
+        lossPotsCarriedIn: lossPots,
+        lossPotsCarriedOut: carriedOut,
+        incomeAfterLosses,
+        freistellungsauftrag,
+        usedAllowance,
+        taxableIncome,
+        ...calculateCapitalTax(taxableIncome, churchTaxRate),
+        missingRates: [...missingRates.values()],
+      };
+    });
+}
+
+/**
+ * Sums the numeric fields of several bank reports (for the totals row)
+ */
+export function sumTaxReports(reports: BankTaxReport[], year: number): BankTaxReport {
+  const sum = (select: (report: BankTaxReport) => number) =>
+    reports.reduce((total, report) => total + select(report), 0);
+
+  return {
+    bankId: 0,
+    bankName: 'Gesamt',
+    year,
+    stockGains: sum((r) => r.stockGains),
+    stockLosses: sum((r) => r.stockLosses),
+    otherGains: sum((r) => r.otherGains),
+    otherLosses: sum((r) => r.otherLosses),
+    dividends: sum((r) => r.dividends),
+    partialExemption: sum((r) => r.partialExemption),
+    taxesWithheld: sum((r) => r.taxesWithheld),
+    privateSales: reports.flatMap((r) => r.privateSales),
+    lossPotsCarriedIn: {
+      stock: sum((r) => r.lossPotsCarriedIn.stock),
+      general: sum((r) => r.lossPotsCarriedIn.general),
+    },
+    lossPotsCarriedOut: {
+      stock: sum((r) => r.lossPotsCarriedOut.stock),
+      general: sum((r) => r.lossPotsCarriedOut.general),
+    },
+    incomeAfterLosses: sum((r) => r.incomeAfterLosses),
+    freistellungsauftrag: sum((r) => r.freistellungsauftrag),
+    usedAllowance: sum((r) => r.usedAllowance),
+    taxableIncome: sum((r) => r.taxableIncome),
+    abgeltungsteuer: sum((r) => r.abgeltungsteuer),
+    soli: sum((r) => r.soli),
+    kirchensteuer: sum((r) => r.kirchensteuer),
+    totalTax: sum((r) => r.totalTax),
+    missingRates: mergeMissingRates(reports.map((r) => r.missingRates)),
+  };
+}
+
+/**
+ * Fund prices of one year (first and last close)
+ */
+export interface FundYearPrices {
+  yearStartPrice?: number;
+  yearEndPrice?: number;
+}
+
+/**
+ * Vorabpauschale of one fund held in one bank
+ */
+export interface FundVorabpauschale {
+  ticker: string;
+  isin: string;
+  fundType: FundType;
+  quantity: number; // Shares held at year end
+  basisertrag: number;
+  distributions: number;
+  vorabpauschale: number;
+  partialExemption: number;
+  taxableAmount: number;
+  missingPrices: boolean;
+}
+
+export interface BankVorabpauschale {
+  bankId: number;
+  bankName: string;
+  year: number;
+  funds: FundVorabpauschale[];
+  taxableAmount: number;
+  usedAllowance: number; // Part of the Freistellungsauftrag left after the other income
+  estimatedTax: number;
+  missingRates: MissingRate[];
+}
+
+/**
+ * Calculates the Vorabpauschale of every investment fund per bank for the given year (§ 18 InvStG)
+ * It is deemed received on the first working day of the following year, so the estimated tax is due
+ * in January and is reduced by the Freistellungsauftrag of that year not used by the bank's other income
+ */
+export function calculateVorabpauschale(
+  banks: Bank[],
+  positions: Position[],
+  transactions: Transaction[],
+  year: number,
+  prices: Record<string, FundYearPrices>,
+  churchTaxRate: ChurchTaxRate,
+  rates: Record<string, number>
+): BankVorabpauschale[] {
+  const instruments = new Map(positions.map((p) => [p.isin, p]));
+  const basiszins = Math.max(BASISZINS[year] ?? 0, 0);
+  const yearEnd = new Date(year, 11, 31, 23, 59, 59);
+  const receiptYearReports = calculateTaxReports(banks, positions, transactions, year + 1, churchTaxRate, rates);
+  // Open lots at year end of all banks, so transferred shares keep their original purchase date
+  const openLots = matchLots(transactions.filter((t) => new Date(t.date) <= yearEnd)).openLots;
+
+  return banks
+    .filter((bank) => bank.id !== undefined)
+    .map((bank) => {
+      const bankTransactions = transactions.filter(
+        (t) => t.bankId === bank.id && new Date(t.date) <= yearEnd
+      );
+      const missingRates = new Map<string, MissingRate>();
+      const toEur = createEurConverter(rates, missingRates);
+
+      // Open fund lots at year end, grouped by ticker
+      const lotsByTicker = new Map<string, Lot[]>();
+      openLots
+        .filter((lot) => {
+          if (lot.bankId !== bank.id) return false;
+          const instrument = instruments.get(lot.isin);
+          return instrument !== undefined && isInvestmentFund(instrument.assetType);
+        })
+        .forEach((lot) => {
+          lotsByTicker.set(lot.ticker, [...(lotsByTicker.get(lot.ticker) ?? []), lot]);
+        });
+
+      const funds = Array.from(lotsByTicker.entries()).map(([ticker, lots]): FundVorabpauschale => {
+        const instrument = instruments.get(lots[0].isin)!;
+        const fundType = instrument.fundType ?? 'equity';
+        // Calculated in the fund's currency, converted at the year-end rate (current rate while the year runs)
+        const inEur = (amount: number) => toEur(amount, lots[0].currency, yearEnd < new Date() ? yearEnd : undefined);
+        const quantity = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+        const distributions = bankTransactions
+          .filter((t) => t.type === 'dividend' && t.ticker === ticker && new Date(t.date).getFullYear() === year)
+          .reduce((sum, t) => sum + t.quantity * t.price, 0);
+
+        const { yearStartPrice, yearEndPrice } = prices[ticker] ?? {};
+        if (yearStartPrice === undefined || yearEndPrice === undefined) {
+          return {
+            ticker,
+            isin: instrument.isin,
+            fundType,
+            quantity,
+            basisertrag: 0,
+            distributions: inEur(distributions),
+            vorabpauschale: 0,
+            partialExemption: 0,
+            taxableAmount: 0,
+            missingPrices: true,
+          };
+        }
+
+        // Per share: Basisertrag minus distributions, capped at the price increase
+        const basisertragPerShare = yearStartPrice * basiszins * BASISERTRAG_FACTOR;
+        const distributionsPerShare = quantity > 0 ? distributions / quantity : 0;
+        const perShare = Math.max(
+          Math.min(basisertragPerShare - distributionsPerShare, yearEndPrice - yearStartPrice),
+          0
+        );
+
+        // Shares bought during the year count 1/12 less for every full month before the purchase
+        const vorabpauschale = lots.reduce((sum, lot) => {
+          const months = lot.date.getFullYear() < year ? 12 : 12 - lot.date.getMonth();
+          return sum + lot.remainingQuantity * perShare * (months / 12);
+        }, 0);
+        const partialExemption = vorabpauschale * TEILFREISTELLUNG[fundType];
+
+        return {
+          ticker,
+          isin: instrument.isin,
+          fundType,
+          quantity,
+          basisertrag: inEur(quantity * basisertragPerShare),
+          distributions: inEur(distributions),
+          vorabpauschale: inEur(vorabpauschale),
+          partialExemption: inEur(partialExemption),
+          taxableAmount: inEur(vorabpauschale - partialExemption),
+          missingPrices: false,
+        };
+      });
+
+      const taxableAmount = funds.reduce((sum, fund) => sum + fund.taxableAmount, 0);
+      const receiptYear = receiptYearReports.find((report) => report.bankId === bank.id);
+      const remainingAllowance = receiptYear ? receiptYear.freistellungsauftrag - receiptYear.usedAllowance : 0;
+      const usedAllowance = Math.min(Math.max(taxableAmount, 0), remainingAllowance);
+
+      return {
+        bankId: bank.id!,
+        bankName: bank.name,
+        year,
+        funds,
+        taxableAmount,
+        usedAllowance,
+        estimatedTax: calculateCapitalTax(taxableAmount - usedAllowance, churchTaxRate).totalTax,
+        missingRates: [...missingRates.values()],
+      };
+    });
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from './db';
+import { findNegativeHolding } from './transactions';
+
+const transaction = (fields: Partial<Transaction>): Transaction => ({
+  bankId: 1,
+  isin: 'US0378331005',
+  ticker: 'AAPL',
+  type: 'buy',
+  date: new Date(2024, 0, 10),
+  quantity: 10,
+  price: 100,
+  currency: 'USD',
+  fees: 0,
+  taxes: 0,
+  createdAt: new Date(2024, 0, 10),
+  ...fields,
+});
+
+describe('findNegativeHolding', () => {
+  const ledger = [
+    transaction({ id: 1 }),
+    transaction({ id: 2, type: 'sell', date: new Date(2024, 5, 1), createdAt: new Date(2024, 5, 1) }),
+  ];
+
+  it('accepts a ledger covered at every date', () => {
+    expect(findNegativeHolding(ledger, 1, 'AAPL')).toBeNull();
+  });
+
+  it('rejects a back-dated sell before the buy', () => {
+    const sell = transaction({ type: 'sell', date: new Date(2023, 5, 1), quantity: 5 });
+    expect(findNegativeHolding([...ledger, sell], 1, 'AAPL')).toEqual({ date: new Date(2023, 5, 1), quantity: -5 });
+  });
+
+  it('rejects a sell that leaves a later sell uncovered', () => {
+    const sell = transaction({ type: 'sell', date: new Date(2024, 2, 1), quantity: 5 });
+    expect(findNegativeHolding([...ledger, sell], 1, 'AAPL')?.date).toEqual(new Date(2024, 5, 1));
+  });
+
+  it('rejects deleting the buy of a later sell', () => {
+    expect(findNegativeHolding(ledger.filter((t) => t.id !== 1), 1, 'AAPL')).not.toBeNull();
+  });
+});
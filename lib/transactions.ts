@@ -0,0 +1,137 @@
+import { db, createOpeningBuy, Position, Transaction, TransactionType } from './db';
+
+/**
+ * Ledger helpers: keeps positions and their opening buys in sync
+ * (holdings are derived from the ledger in ./lots)
+ */
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Kauf',
+  sell: 'Verkauf',
+  'transfer-in': 'Übertrag (Eingang)',
+  'transfer-out': 'Übertrag (Ausgang)',
+  dividend: 'Dividende',
+};
+
+/**
+ * Returns +1 for transactions adding shares, -1 for transactions removing shares
+ * and 0 for transactions not changing the quantity (dividends)
+ */
+export function getQuantitySign(type: TransactionType): 1 | -1 | 0 {
+  if (type === 'dividend') return 0;
+  return type === 'buy' || type === 'transfer-in' ? 1 : -1;
+}
+
+/**
+ * Sorts transactions chronologically (same-day entries by creation time)
+ */
+export function sortTransactions(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort((a, b) => {
+    const dateDiff = new Date(a.date).getTime() - new Date(b.date).getTime();
+    if (dateDiff !== 0) return dateDiff;
+    return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  });
+}
+
+/**
+ * Finds the first point at which the held quantity of a ticker in a bank becomes negative
+ * (e.g. after a back-dated sell or a deleted buy), null if the ledger stays covered throughout
+ */
+export function findNegativeHolding(
+  transactions: Transaction[],
+  bankId: number,
+  ticker: string
+): { date: Date; quantity: number } | null {
+  let quantity = 0;
+  for (const transaction of sortTransactions(transactions)) {
+    if (transaction.bankId !== bankId || transaction.ticker !== ticker) continue;
+    quantity += getQuantitySign(transaction.type) * transaction.quantity;
+    if (quantity < -1e-9) return { date: new Date(transaction.date), quantity };
+  }
+  return null;
+}
+
+// Ids of rows added to the ledger
+export interface LedgerIds {
+  positions: number[];
+  transactions: number[];
+}
+
+/**
+ * Adds positions together with their opening buy transactions
+ */
+export async function addPositions(positions: Omit<Position, 'id'>[]): Promise<LedgerIds> {
+  const ids: LedgerIds = { positions: [], transactions: [] };
+  await db.transaction('rw', db.positions, db.transactions, async () => {
+    for (const position of positions) {
+      const positionId = (await db.positions.add(position)) as number;
+      ids.positions.push(positionId);
+      ids.transactions.push((await db.transactions.add(createOpeningBuy(position, positionId))) as number);
+    }
+  });
+  return ids;
+}
+
+/**
+ * Updates a position and its opening buy transaction
+ */
+export async function updatePosition(
+  id: number,
+  changes: Partial<Omit<Position, 'id' | 'bankId' | 'createdAt'>>
+): Promise<void> {
+  await db.transaction('rw', db.positions, db.transactions, async () => {
+    await db.positions.update(id, changes);
+    const position = await db.positions.get(id);
+    if (!position) return;
+
+    const openingBuy = createOpeningBuy(position, id);
+    const updated = await db.transactions
+      .where('positionId')
+      .equals(id)
+      .modify({
+        isin: openingBuy.isin,
+        ticker: openingBuy.ticker,
+        date: openingBuy.date,
+        quantity: openingBuy.quantity,
+        price: openingBuy.price,
+        currency: openingBuy.currency,
+      });
+    if (updated === 0) {
+      await db.transactions.add(openingBuy);
+    }
+  });
+}
+
+/**
+ * Deletes a position and its opening buy transaction
+ */
+export async function deletePosition(id: number): Promise<void> {
+  await db.transaction('rw', db.positions, db.transactions, async () => {
+    await db.transactions.where('positionId').equals(id).delete();
+    await db.positions.delete(id);
+  });
+}
+
+/**
+ * Deletes all positions and transactions of a bank
+ */
+export async function deleteBankLedger(bankId: number): Promise<void> {
+  await db.transaction('rw', db.positions, db.transactions, async () => {
+    await db.transactions.where('bankId').equals(bankId).delete();
+    await db.positions.where('bankId').equals(bankId).delete();
+  });
+}
+
+/**
+ * Imports positions (with opening buys) and further ledger transactions in one go
+ */
+export async function importLedger(
+  positions: Omit<Position, 'id'>[],
+  transactions: Omit<Transaction, 'id'>[]
+): Promise<LedgerIds> {
+  return db.transaction('rw', db.positions, db.transactions, async () => {
+    const ids = await addPositions(positions);
+    const transactionIds = await db.transactions.bulkAdd(transactions, { allKeys: true });
+    return { ...ids, transactions: [...ids.transactions, ...(transactionIds as number[])] };
+  });
+}